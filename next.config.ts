@@ -6,6 +6,8 @@ const withPWA = withPWAInit({
   cacheOnFrontEndNav: true,
   aggressiveFrontEndNavCaching: true,
   reloadOnOnline: true,
+  // Push and notification-click handlers (imported into sw.js)
+  customWorkerSrc: "src/worker",
   disable: process.env.NODE_ENV === "development",
   workboxOptions: {
     disableDevLogs: true,
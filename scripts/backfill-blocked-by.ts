@@ -0,0 +1,47 @@
+/**
+ * One-off backfill of the `blocks/{uid}/blockedBy` reverse index from existing blocks
+ *
+ * Runs with the Admin SDK credentials from `.env`:
+ *   npm run backfill:blocked-by
+ *
+ * Safe to re-run: mirror documents are overwritten with the block's creation time.
+ */
+
+import { adminDb } from '../src/lib/server/firebaseAdmin';
+import type { BlockRecord } from '../src/types/moderation';
+
+const BATCH_SIZE = 400;
+
+async function backfillBlockedBy(): Promise<number> {
+  const blockerRefs = await adminDb.collection('blocks').listDocuments();
+  let mirrored = 0;
+
+  for (const blockerRef of blockerRefs) {
+    const snapshot = await blockerRef.collection('blocked').get();
+
+    for (let start = 0; start < snapshot.docs.length; start += BATCH_SIZE) {
+      const batch = adminDb.batch();
+      snapshot.docs.slice(start, start + BATCH_SIZE).forEach((blockDoc) => {
+        const block = blockDoc.data() as BlockRecord;
+        batch.set(adminDb.collection('blocks').doc(blockDoc.id).collection('blockedBy').doc(blockerRef.id), {
+          createdAt: block.createdAt
+        });
+      });
+      await batch.commit();
+    }
+
+    mirrored += snapshot.size;
+  }
+
+  return mirrored;
+}
+
+backfillBlockedBy()
+  .then((mirrored) => {
+    console.log(`Mirrored ${mirrored} blocks into blockedBy.`);
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Block mirror backfill failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,59 @@
+/**
+ * One-off backfill of the `userChats` inbox index from the existing chats tree
+ *
+ * Runs with the Admin SDK credentials from `.env`:
+ *   npm run backfill:user-chats
+ *
+ * Safe to re-run: entries are rebuilt from the chat metadata.
+ */
+
+import { adminDatabase } from '../src/lib/server/firebaseAdmin';
+import { forEachChildPage } from '../src/lib/server/realtimePages';
+import { createUserChatEntry } from '../src/lib/chatUtils';
+import type { Chat } from '../src/types/chat';
+
+async function backfillUserChats(): Promise<{ chats: number; entries: number }> {
+  let chats = 0;
+  let entries = 0;
+
+  await forEachChildPage<Partial<Chat> | null>('chats', async (page) => {
+    const updates: Record<string, unknown> = {};
+
+    Object.entries(page).forEach(([chatId, stored]) => {
+      const participantIds = Object.keys(stored?.participants ?? {});
+      const dailyIds = participantIds.length === 2 ? participantIds : chatId.split('_');
+      const createdAt = stored?.createdAt ?? stored?.lastMessageTimestamp ?? Date.now();
+      const chat: Chat = {
+        chatId,
+        participants: Object.fromEntries(dailyIds.map((dailyId) => [dailyId, true])),
+        participantIds: dailyIds,
+        lastMessage: stored?.lastMessage,
+        lastMessageTimestamp: stored?.lastMessageTimestamp,
+        createdAt,
+        updatedAt: stored?.updatedAt ?? createdAt
+      };
+
+      dailyIds.forEach((dailyId) => {
+        updates[`userChats/${dailyId}/${chatId}`] = createUserChatEntry(chat, dailyId);
+      });
+      chats += 1;
+    });
+
+    if (Object.keys(updates).length > 0) {
+      await adminDatabase.ref().update(updates);
+    }
+    entries += Object.keys(updates).length;
+  });
+
+  return { chats, entries };
+}
+
+backfillUserChats()
+  .then(({ chats, entries }) => {
+    console.log(`Indexed ${chats} chats into ${entries} inbox entries.`);
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Inbox backfill failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,78 @@
+import { authenticateRequest, getDailyIdOwner, ownsDailyId } from '@/lib/server/auth';
+import { blockUser, fileReport } from '@/lib/server/moderation';
+import { jsonError, jsonOk, readJsonBody } from '@/lib/server/http';
+import { generateChatId } from '@/lib/chatUtils';
+import { isAdminSupportDailyId } from '@/config/adminSupport';
+import { REPORT_REASONS } from '@/types/moderation';
+import type { BlockUserRequest, BlockUserResponse } from '@/types/api';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_REPORT_DETAILS_LENGTH = 500;
+
+/**
+ * Block the other participant of a chat and optionally report them
+ * Blocks are stored by UID so they carry over to future daily IDs.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ chatId: string }> }
+) {
+  const user = await authenticateRequest(request);
+  if (!user) {
+    return jsonError(401, 'unauthenticated', 'Sign in to block users');
+  }
+
+  const { chatId } = await params;
+  const body = await readJsonBody<BlockUserRequest>(request);
+  const myDailyId = typeof body?.myDailyId === 'string' ? body.myDailyId : '';
+  const otherDailyId = typeof body?.otherDailyId === 'string' ? body.otherDailyId : '';
+  const report = body?.report;
+
+  if (!myDailyId || !otherDailyId || generateChatId(myDailyId, otherDailyId) !== chatId) {
+    return jsonError(400, 'invalid-request', 'Both daily IDs of this chat are required');
+  }
+
+  if (isAdminSupportDailyId(otherDailyId)) {
+    return jsonError(400, 'invalid-request', 'The support account cannot be blocked');
+  }
+
+  if (report && !Object.keys(REPORT_REASONS).includes(String(report.reason))) {
+    return jsonError(400, 'invalid-request', 'Choose a reason for the report');
+  }
+
+  try {
+    if (!(await ownsDailyId(user, myDailyId))) {
+      return jsonError(403, 'not-daily-id-owner', 'This daily ID does not belong to you');
+    }
+
+    const otherUserId = await getDailyIdOwner(otherDailyId);
+    if (!otherUserId) {
+      return jsonError(404, 'daily-id-not-found', 'That daily ID is not active today');
+    }
+
+    await blockUser(user.uid, otherUserId, otherDailyId);
+
+    let reportId: string | undefined;
+    if (report) {
+      const details = typeof report.details === 'string'
+        ? report.details.trim().slice(0, MAX_REPORT_DETAILS_LENGTH)
+        : '';
+
+      reportId = await fileReport({
+        reporterId: user.uid,
+        reporterDailyId: myDailyId,
+        reportedUserId: otherUserId,
+        reportedDailyId: otherDailyId,
+        chatId,
+        reason: report.reason,
+        details: details || undefined
+      });
+    }
+
+    return jsonOk<BlockUserResponse>(reportId ? { reportId } : {});
+  } catch (error) {
+    console.error('Error blocking user:', error);
+    return jsonError(500, 'internal', 'Failed to block user');
+  }
+}
@@ -0,0 +1,123 @@
+import { authenticateRequest, getDailyIdOwner, ownsDailyId, type AuthenticatedUser } from '@/lib/server/auth';
+import { editChatMessage, getChatMessage, unsendChatMessage } from '@/lib/server/chatMessages';
+import { withdrawMessageHighlights } from '@/lib/server/highlights';
+import { jsonError, jsonOk, readJsonBody } from '@/lib/server/http';
+import { isValidMessage, isWithinEditWindow } from '@/lib/chatUtils';
+import type { Message } from '@/types/chat';
+import type { ChangeMessageRequest, ChangeMessageResponse } from '@/types/api';
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ chatId: string; messageId: string }> };
+
+type OwnMessageResult = { message: Message } | { error: Response };
+
+/**
+ * Load a message the caller sent and may still change
+ */
+async function loadOwnMessage(
+  user: AuthenticatedUser,
+  chatId: string,
+  messageId: string,
+  senderId: string
+): Promise<OwnMessageResult> {
+  if (!(await ownsDailyId(user, senderId))) {
+    return { error: jsonError(403, 'not-daily-id-owner', 'This daily ID does not belong to you') };
+  }
+
+  const message = await getChatMessage(chatId, messageId);
+  if (!message || message.unsentAt) {
+    return { error: jsonError(404, 'message-not-found', 'Message not found') };
+  }
+
+  if (message.isSystemMessage || message.senderId !== senderId) {
+    return { error: jsonError(403, 'not-message-sender', 'You can only change your own messages') };
+  }
+
+  if (!isWithinEditWindow(message)) {
+    return { error: jsonError(409, 'edit-window-closed', 'This message can no longer be changed') };
+  }
+
+  return { message };
+}
+
+/**
+ * Firebase UIDs of both participants, for highlight cleanup
+ */
+async function getParticipantUserIds(user: AuthenticatedUser, message: Message): Promise<string[]> {
+  const recipientUserId = await getDailyIdOwner(message.recipientId);
+  return recipientUserId ? [user.uid, recipientUserId] : [user.uid];
+}
+
+/**
+ * Edit a message within the grace window
+ * Highlights of the old text are withdrawn so it cannot reach stories.
+ */
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const user = await authenticateRequest(request);
+  if (!user) {
+    return jsonError(401, 'unauthenticated', 'Sign in to edit messages');
+  }
+
+  const { chatId, messageId } = await params;
+  const body = await readJsonBody<ChangeMessageRequest>(request);
+  const senderId = typeof body?.senderId === 'string' ? body.senderId : '';
+  const text = typeof body?.text === 'string' ? body.text : '';
+
+  if (!senderId) {
+    return jsonError(400, 'invalid-request', 'Sender is required');
+  }
+
+  if (!isValidMessage(text)) {
+    return jsonError(400, 'invalid-message', 'Invalid message: Message must be 1-1000 characters');
+  }
+
+  try {
+    const result = await loadOwnMessage(user, chatId, messageId, senderId);
+    if ('error' in result) {
+      return result.error;
+    }
+
+    const editedAt = await editChatMessage(chatId, messageId, text);
+    await withdrawMessageHighlights(chatId, messageId, await getParticipantUserIds(user, result.message));
+
+    return jsonOk<ChangeMessageResponse>({ messageId, editedAt });
+  } catch (error) {
+    console.error('Error editing message:', error);
+    return jsonError(500, 'internal', 'Failed to edit message');
+  }
+}
+
+/**
+ * Unsend a message within the grace window
+ * Both participants see a tombstone; highlights and a pending story are withdrawn.
+ */
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const user = await authenticateRequest(request);
+  if (!user) {
+    return jsonError(401, 'unauthenticated', 'Sign in to unsend messages');
+  }
+
+  const { chatId, messageId } = await params;
+  const body = await readJsonBody<ChangeMessageRequest>(request);
+  const senderId = typeof body?.senderId === 'string' ? body.senderId : '';
+
+  if (!senderId) {
+    return jsonError(400, 'invalid-request', 'Sender is required');
+  }
+
+  try {
+    const result = await loadOwnMessage(user, chatId, messageId, senderId);
+    if ('error' in result) {
+      return result.error;
+    }
+
+    const unsentAt = await unsendChatMessage(chatId, result.message);
+    await withdrawMessageHighlights(chatId, messageId, await getParticipantUserIds(user, result.message));
+
+    return jsonOk<ChangeMessageResponse>({ messageId, unsentAt });
+  } catch (error) {
+    console.error('Error unsending message:', error);
+    return jsonError(500, 'internal', 'Failed to unsend message');
+  }
+}
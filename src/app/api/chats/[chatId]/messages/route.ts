@@ -0,0 +1,110 @@
+import { after } from 'next/server';
+import { authenticateRequest, getDailyIdOwner, ownsDailyId } from '@/lib/server/auth';
+import { getChatParticipants, getReplySnapshot, writeChatMessage } from '@/lib/server/chatMessages';
+import { getActiveBan, getBanDetails, isBlockedBetween } from '@/lib/server/moderation';
+import { banRestricts } from '@/lib/bans';
+import { createAppNotification } from '@/lib/server/notifications';
+import { sendPushToUser } from '@/lib/server/push';
+import { jsonError, jsonOk, readJsonBody } from '@/lib/server/http';
+import { generateChatId, isValidClientMessageId, isValidMessage } from '@/lib/chatUtils';
+import { isAdminSupportDailyId } from '@/config/adminSupport';
+import type { SendMessageRequest, SendMessageResponse } from '@/types/api';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Send a message in a one-to-one chat
+ * The sender must own `senderId` today and both IDs must be participants.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ chatId: string }> }
+) {
+  const user = await authenticateRequest(request);
+  if (!user) {
+    return jsonError(401, 'unauthenticated', 'Sign in to send messages');
+  }
+
+  const { chatId } = await params;
+  const body = await readJsonBody<SendMessageRequest>(request);
+  const senderId = typeof body?.senderId === 'string' ? body.senderId : '';
+  const recipientId = typeof body?.recipientId === 'string' ? body.recipientId : '';
+  const text = typeof body?.text === 'string' ? body.text : '';
+  const clientMessageId = typeof body?.clientMessageId === 'string' ? body.clientMessageId : undefined;
+  const replyToMessageId = typeof body?.replyToMessageId === 'string' ? body.replyToMessageId : undefined;
+
+  if (!senderId || !recipientId || senderId === recipientId) {
+    return jsonError(400, 'invalid-request', 'Sender and recipient are required');
+  }
+
+  if (!isValidMessage(text)) {
+    return jsonError(400, 'invalid-message', 'Invalid message: Message must be 1-1000 characters');
+  }
+
+  if (clientMessageId !== undefined && !isValidClientMessageId(clientMessageId)) {
+    return jsonError(400, 'invalid-request', 'Invalid client message ID');
+  }
+
+  if (replyToMessageId !== undefined && !isValidClientMessageId(replyToMessageId)) {
+    return jsonError(400, 'invalid-request', 'Invalid reply target');
+  }
+
+  if (generateChatId(senderId, recipientId) !== chatId) {
+    return jsonError(403, 'not-a-participant', 'Sender and recipient do not match this chat');
+  }
+
+  try {
+    if (!(await ownsDailyId(user, senderId))) {
+      return jsonError(403, 'not-daily-id-owner', 'This daily ID does not belong to you');
+    }
+
+    const participants = await getChatParticipants(chatId);
+    if (!participants) {
+      return jsonError(404, 'chat-not-found', 'Chat not found');
+    }
+
+    if (!participants[senderId] || !participants[recipientId]) {
+      return jsonError(403, 'not-a-participant', 'You are not a participant in this chat');
+    }
+
+    const recipientUserId = await getDailyIdOwner(recipientId);
+
+    if (!isAdminSupportDailyId(senderId) && !isAdminSupportDailyId(recipientId)) {
+      const ban = await getActiveBan(user.uid);
+      if (ban && banRestricts(ban, 'chat')) {
+        return jsonError(
+          403,
+          'banned',
+          `You cannot send messages until ${new Date(ban.expiresAt).toLocaleString()}`,
+          getBanDetails(ban)
+        );
+      }
+
+      if (recipientUserId && (await isBlockedBetween(user.uid, recipientUserId))) {
+        return jsonError(403, 'blocked', 'You can no longer message this person');
+      }
+    }
+
+    // The quote is snapshotted from the stored message so it cannot be forged
+    const replyTo = replyToMessageId ? await getReplySnapshot(chatId, replyToMessageId) : undefined;
+    if (replyTo === null) {
+      return jsonError(400, 'invalid-request', 'The message you replied to is no longer available');
+    }
+
+    const result = await writeChatMessage({ chatId, senderId, recipientId, text, clientMessageId, replyTo });
+
+    // Push after responding so delivery never slows the sender down
+    if (!result.duplicate && recipientUserId) {
+      after(() => sendPushToUser(recipientUserId, { type: 'new-message', chatId, senderDailyId: senderId }));
+
+      if (isAdminSupportDailyId(senderId)) {
+        after(() => createAppNotification(recipientUserId, { type: 'support-reply', supportDailyId: senderId }));
+      }
+    }
+
+    return jsonOk<SendMessageResponse>(result, result.duplicate ? 200 : 201);
+  } catch (error) {
+    console.error('Error sending message:', error);
+    return jsonError(500, 'internal', 'Failed to send message');
+  }
+}
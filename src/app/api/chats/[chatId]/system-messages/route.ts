@@ -0,0 +1,64 @@
+import { authenticateRequest, ownsDailyId } from '@/lib/server/auth';
+import { getChatParticipants, writeSystemMessage } from '@/lib/server/chatMessages';
+import { hasHighlightedMessage } from '@/lib/server/highlights';
+import { jsonError, jsonOk, readJsonBody } from '@/lib/server/http';
+import { isValidClientMessageId } from '@/lib/chatUtils';
+import type { SystemMessageEvent, SystemMessageRequest, SystemMessageResponse } from '@/types/api';
+
+export const dynamic = 'force-dynamic';
+
+const SYSTEM_MESSAGE_EVENTS: SystemMessageEvent[] = ['highlight-added', 'highlight-removed'];
+
+/**
+ * Post a system message about the caller's own highlight change
+ * The text is worded here and the change is checked against the caller's highlights first.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ chatId: string }> }
+) {
+  const user = await authenticateRequest(request);
+  if (!user) {
+    return jsonError(401, 'unauthenticated', 'Sign in to post in this chat');
+  }
+
+  const { chatId } = await params;
+  const body = await readJsonBody<SystemMessageRequest>(request);
+  const myDailyId = typeof body?.myDailyId === 'string' ? body.myDailyId : '';
+  const messageId = typeof body?.messageId === 'string' ? body.messageId : '';
+  const event = SYSTEM_MESSAGE_EVENTS.find((candidate) => candidate === body?.event);
+
+  if (!myDailyId || !event || !isValidClientMessageId(messageId)) {
+    return jsonError(400, 'invalid-request', 'A daily ID, event and message are required');
+  }
+
+  try {
+    if (!(await ownsDailyId(user, myDailyId))) {
+      return jsonError(403, 'not-daily-id-owner', 'This daily ID does not belong to you');
+    }
+
+    const participants = await getChatParticipants(chatId);
+    if (!participants) {
+      return jsonError(404, 'chat-not-found', 'Chat not found');
+    }
+
+    if (!participants[myDailyId]) {
+      return jsonError(403, 'not-a-participant', 'You are not part of this chat');
+    }
+
+    const highlighted = await hasHighlightedMessage(user.uid, messageId);
+    if (highlighted !== (event === 'highlight-added')) {
+      return jsonError(409, 'invalid-request', 'Your highlights do not match this event');
+    }
+
+    const text = event === 'highlight-added'
+      ? `⭐ ${myDailyId} highlighted a message`
+      : `☆ ${myDailyId} removed a highlight`;
+    const posted = await writeSystemMessage(chatId, text);
+
+    return jsonOk<SystemMessageResponse>({ posted }, 201);
+  } catch (error) {
+    console.error('Error posting system message:', error);
+    return jsonError(500, 'internal', 'Failed to post system message');
+  }
+}
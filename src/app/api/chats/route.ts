@@ -0,0 +1,126 @@
+import { authenticateRequest, getDailyIdOwner, ownsDailyId } from '@/lib/server/auth';
+import { createChatIfAbsent, getChatParticipants, recordDailyIdOwners } from '@/lib/server/chatMessages';
+import { releaseChatSlot, reserveChatSlot } from '@/lib/server/chatLimits';
+import { getActiveBan, getBanDetails, isBlockedBetween } from '@/lib/server/moderation';
+import { banRestricts } from '@/lib/bans';
+import { jsonError, jsonOk, readJsonBody } from '@/lib/server/http';
+import { generateChatId } from '@/lib/chatUtils';
+import { validateDailyId } from '@/lib/dailyId';
+import { getNextResetStart, getResetTimeLabel } from '@/lib/resetClock';
+import { isAdminSupportDailyId } from '@/config/adminSupport';
+import type { ChatLimitReachedDetails, StartChatRequest, StartChatResponse } from '@/types/api';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Start (or reopen) a one-to-one chat
+ * New chats count against the initiator's daily limit; existing and support chats are free.
+ */
+export async function POST(request: Request) {
+  const user = await authenticateRequest(request);
+  if (!user) {
+    return jsonError(401, 'unauthenticated', 'Sign in to start a chat');
+  }
+
+  const body = await readJsonBody<StartChatRequest>(request);
+  const myDailyId = typeof body?.myDailyId === 'string' ? body.myDailyId : '';
+  const otherDailyId = typeof body?.otherDailyId === 'string' ? body.otherDailyId : '';
+
+  if (!myDailyId || !otherDailyId || myDailyId === otherDailyId) {
+    return jsonError(400, 'invalid-request', 'Two different daily IDs are required');
+  }
+
+  if (!isAdminSupportDailyId(otherDailyId) && !validateDailyId(otherDailyId)) {
+    return jsonError(400, 'invalid-daily-id', 'That daily ID looks mistyped. Check the digits and try again.');
+  }
+
+  const chatId = generateChatId(myDailyId, otherDailyId);
+  const isSupportChat = isAdminSupportDailyId(myDailyId) || isAdminSupportDailyId(otherDailyId);
+
+  try {
+    if (!(await ownsDailyId(user, myDailyId))) {
+      return jsonError(403, 'not-daily-id-owner', 'This daily ID does not belong to you');
+    }
+
+    // Suspended users can still reach support (e.g. to appeal)
+    const ban = isSupportChat ? null : await getActiveBan(user.uid);
+    if (ban && banRestricts(ban, 'chat')) {
+      return jsonError(
+        403,
+        'banned',
+        `You cannot start chats until ${new Date(ban.expiresAt).toLocaleString()}`,
+        getBanDetails(ban)
+      );
+    }
+
+    if (await getChatParticipants(chatId)) {
+      await recordDailyIdOwners({ [myDailyId]: user.uid });
+      return jsonOk<StartChatResponse>({ chatId, created: false });
+    }
+
+    const otherOwner = await getDailyIdOwner(otherDailyId);
+    if (!otherOwner) {
+      return jsonError(404, 'daily-id-not-found', 'That daily ID is not active today');
+    }
+
+    if (otherOwner === user.uid) {
+      return jsonError(400, 'invalid-request', 'You cannot start a chat with yourself');
+    }
+
+    if (!isSupportChat && (await isBlockedBetween(user.uid, otherOwner))) {
+      return jsonError(403, 'blocked', 'You cannot chat with this person');
+    }
+
+    await recordDailyIdOwners({ [myDailyId]: user.uid, [otherDailyId]: otherOwner });
+
+    if (isSupportChat) {
+      const created = await createChatIfAbsent(myDailyId, otherDailyId);
+      return jsonOk<StartChatResponse>({ chatId, created }, created ? 201 : 200);
+    }
+
+    const reservation = await reserveChatSlot(user.uid);
+    if (!reservation.success) {
+      const details: ChatLimitReachedDetails = {
+        count: reservation.count,
+        limit: reservation.limit,
+        resetsAt: getNextResetStart().getTime(),
+        quota: reservation.quota
+      };
+      return jsonError(
+        429,
+        'chat-limit-reached',
+        `Daily chat limit reached. Please wait until ${getResetTimeLabel()}.`,
+        { ...details }
+      );
+    }
+
+    let created = false;
+    try {
+      created = await createChatIfAbsent(myDailyId, otherDailyId);
+    } finally {
+      // Someone else created the chat first (or the write failed): refund the slot
+      if (!created) {
+        await releaseChatSlot(user.uid);
+      }
+    }
+
+    return jsonOk<StartChatResponse>(
+      {
+        chatId,
+        created,
+        chatLimit: created
+          ? {
+              count: reservation.count,
+              limit: reservation.limit,
+              remaining: reservation.remaining,
+              quota: reservation.quota
+            }
+          : undefined
+      },
+      created ? 201 : 200
+    );
+  } catch (error) {
+    console.error('Error starting chat:', error);
+    return jsonError(500, 'internal', 'Failed to start chat');
+  }
+}
@@ -0,0 +1,75 @@
+import { authenticateRequest, getCurrentDailyId, ownsDailyId } from '@/lib/server/auth';
+import { createChatIfAbsent, recordDailyIdOwners } from '@/lib/server/chatMessages';
+import { findCurrentConnection, getConnectionPartnerId } from '@/lib/server/favorites';
+import { getActiveBan, getBanDetails, isBlockedBetween } from '@/lib/server/moderation';
+import { banRestricts } from '@/lib/bans';
+import { jsonError, jsonOk, readJsonBody } from '@/lib/server/http';
+import { generateChatId } from '@/lib/chatUtils';
+import type { ConnectionChatRequest, StartChatResponse } from '@/types/api';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Open a chat with a mutual connection under both users' current daily IDs
+ * Reconnecting is free: it never uses one of today's new-chat slots.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ connectionToken: string }> }
+) {
+  const user = await authenticateRequest(request);
+  if (!user) {
+    return jsonError(401, 'unauthenticated', 'Sign in to reconnect');
+  }
+
+  const { connectionToken } = await params;
+  const body = await readJsonBody<ConnectionChatRequest>(request);
+  const myDailyId = typeof body?.myDailyId === 'string' ? body.myDailyId : '';
+
+  if (!myDailyId) {
+    return jsonError(400, 'invalid-request', 'Your daily ID is required');
+  }
+
+  try {
+    if (!(await ownsDailyId(user, myDailyId))) {
+      return jsonError(403, 'not-daily-id-owner', 'This daily ID does not belong to you');
+    }
+
+    const connection = await findCurrentConnection(user.uid, connectionToken);
+    if (!connection) {
+      return jsonError(404, 'connection-not-found', 'Connection not found');
+    }
+
+    const partnerId = getConnectionPartnerId(connection, user.uid);
+
+    const ban = await getActiveBan(user.uid);
+    if (ban && banRestricts(ban, 'chat')) {
+      return jsonError(
+        403,
+        'banned',
+        `You cannot start chats until ${new Date(ban.expiresAt).toLocaleString()}`,
+        getBanDetails(ban)
+      );
+    }
+
+    if (await isBlockedBetween(user.uid, partnerId)) {
+      return jsonError(403, 'blocked', 'You cannot chat with this person');
+    }
+
+    const partnerDailyId = await getCurrentDailyId(partnerId);
+    if (!partnerDailyId) {
+      return jsonError(404, 'daily-id-not-found', 'Your connection has not signed in today yet');
+    }
+
+    await recordDailyIdOwners({ [myDailyId]: user.uid, [partnerDailyId]: partnerId });
+    const created = await createChatIfAbsent(myDailyId, partnerDailyId);
+
+    return jsonOk<StartChatResponse>(
+      { chatId: generateChatId(myDailyId, partnerDailyId), created },
+      created ? 201 : 200
+    );
+  } catch (error) {
+    console.error('Error reconnecting:', error);
+    return jsonError(500, 'internal', 'Failed to open chat');
+  }
+}
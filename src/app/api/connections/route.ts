@@ -0,0 +1,58 @@
+import { authenticateRequest, getCurrentDailyId } from '@/lib/server/auth';
+import { getCurrentConnections, getConnectionPartnerId, isStreakActive } from '@/lib/server/favorites';
+import { isBlockedBetween } from '@/lib/server/moderation';
+import { jsonError, jsonOk } from '@/lib/server/http';
+import { getTodayDateString } from '@/lib/dailyId';
+import { getLongestStreak, getStreakMilestones, summarizeFavoriteHistory } from '@/lib/streaks';
+import { STREAK_HISTORY_DAYS } from '@/config/streaks';
+import type { ConnectionSummary } from '@/types/favorites';
+import type { ListConnectionsResponse } from '@/types/api';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * List the caller's mutual connections with each partner's daily ID for today
+ * Expired connections stay listed through their grace period.
+ * Partner UIDs never leave the server; blocked partners are left out.
+ */
+export async function GET(request: Request) {
+  const user = await authenticateRequest(request);
+  if (!user) {
+    return jsonError(401, 'unauthenticated', 'Sign in to see your connections');
+  }
+
+  try {
+    const connections = await getCurrentConnections(user.uid);
+    const today = getTodayDateString();
+
+    const summaries = await Promise.all(
+      connections.map(async (connection): Promise<ConnectionSummary | null> => {
+        const partnerId = getConnectionPartnerId(connection, user.uid);
+        if (await isBlockedBetween(user.uid, partnerId)) {
+          return null;
+        }
+
+        return {
+          connectionToken: connection.connectionToken,
+          partnerDailyId: await getCurrentDailyId(partnerId),
+          streakCount: connection.streakCount,
+          streakActive: isStreakActive(connection),
+          status: connection.status === 'expired' ? 'expired' : 'active',
+          freezeBalance: connection.freezeBalance ?? 0,
+          longestStreak: getLongestStreak(connection),
+          milestones: getStreakMilestones(getLongestStreak(connection)),
+          history: summarizeFavoriteHistory(connection.favoriteHistory, user.uid, today, STREAK_HISTORY_DAYS),
+          createdAt: connection.createdAt,
+          lastMutualFavoriteAt: connection.lastMutualFavoriteAt
+        };
+      })
+    );
+
+    const visible = summaries.filter((summary): summary is ConnectionSummary => summary !== null);
+    visible.sort((a, b) => b.lastMutualFavoriteAt - a.lastMutualFavoriteAt);
+    return jsonOk<ListConnectionsResponse>({ connections: visible });
+  } catch (error) {
+    console.error('Error listing connections:', error);
+    return jsonError(500, 'internal', 'Failed to load connections');
+  }
+}
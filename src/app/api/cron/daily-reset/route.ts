@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { runDailyReset } from '@/lib/server/dailyReset';
+
+// Never cache - every invocation must hit the databases
+export const dynamic = 'force-dynamic';
+
+/**
+ * Scheduled daily reset
+ * Invoked hourly by Vercel Cron (see vercel.json) or any scheduler that sends
+ * `Authorization: Bearer $CRON_SECRET`. Pass `?force=1` to re-run today's reset.
+ */
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+  }
+
+  const force = new URL(request.url).searchParams.get('force') === '1';
+  const report = await runDailyReset({ force });
+  return NextResponse.json(report, { status: report.success ? 200 : 500 });
+}
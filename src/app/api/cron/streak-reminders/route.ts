@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { sendStreakReminders } from '@/lib/server/streakReminders';
+
+// Never cache - every invocation must hit the databases
+export const dynamic = 'force-dynamic';
+
+/**
+ * Scheduled streak-at-risk reminders
+ * Invoked hourly by Vercel Cron (see vercel.json); only sends in the last
+ * hours before the reset, once per connection per day.
+ */
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const report = await sendStreakReminders();
+    return NextResponse.json({ success: true, ...report });
+  } catch (error) {
+    console.error('Error sending streak reminders:', error);
+    return NextResponse.json({ success: false, message: 'Failed to send streak reminders' }, { status: 500 });
+  }
+}
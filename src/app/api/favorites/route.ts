@@ -0,0 +1,164 @@
+import { after } from 'next/server';
+import { authenticateRequest, getDailyIdOwner, ownsDailyId } from '@/lib/server/auth';
+import {
+  addFavorite,
+  announceFavorite,
+  announceUnfavorite,
+  removeFavorite,
+  type FavoriteChange
+} from '@/lib/server/favorites';
+import { isBlockedBetween } from '@/lib/server/moderation';
+import { createAppNotification } from '@/lib/server/notifications';
+import { sendPushToUser } from '@/lib/server/push';
+import { jsonError, jsonOk, readJsonBody } from '@/lib/server/http';
+import type { AppNotificationEvent } from '@/types/notifications';
+import type { ConnectionLockedDetails, FavoriteChangeRequest, FavoriteChangeResponse } from '@/types/api';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Favorite another user's daily ID
+ * Becoming mutual creates or renews the connection and locks it until the next reset.
+ */
+export async function POST(request: Request) {
+  const user = await authenticateRequest(request);
+  if (!user) {
+    return jsonError(401, 'unauthenticated', 'Sign in to add favorites');
+  }
+
+  const body = await readJsonBody<FavoriteChangeRequest>(request);
+  const myDailyId = typeof body?.myDailyId === 'string' ? body.myDailyId : '';
+  const favoritedDailyId = typeof body?.favoritedDailyId === 'string' ? body.favoritedDailyId : '';
+
+  if (!myDailyId || !favoritedDailyId || myDailyId === favoritedDailyId) {
+    return jsonError(400, 'invalid-request', 'Two different daily IDs are required');
+  }
+
+  try {
+    if (!(await ownsDailyId(user, myDailyId))) {
+      return jsonError(403, 'not-daily-id-owner', 'This daily ID does not belong to you');
+    }
+
+    const otherUserId = await getDailyIdOwner(favoritedDailyId);
+    if (!otherUserId) {
+      return jsonError(404, 'daily-id-not-found', 'User not found or daily ID expired');
+    }
+
+    if (otherUserId === user.uid) {
+      return jsonError(400, 'invalid-request', 'Cannot favorite yourself');
+    }
+
+    const result = await addFavorite(user.uid, myDailyId, otherUserId, favoritedDailyId);
+    if (!result.success) {
+      return favoriteChangeError(result);
+    }
+
+    // Chat messages and notifications go out after responding
+    after(() => announceFavorite(myDailyId, favoritedDailyId, result));
+    if (result.mutualConnection) {
+      after(() => notifyMutualFavorite(user.uid, myDailyId, otherUserId, favoritedDailyId, result.streakCount ?? 1));
+    }
+
+    return jsonOk<FavoriteChangeResponse>(toFavoriteChangeResponse(result), 201);
+  } catch (error) {
+    console.error('Error adding favorite:', error);
+    return jsonError(500, 'internal', 'Failed to add favorite');
+  }
+}
+
+/**
+ * Remove a favorite (refused while the connection is locked)
+ */
+export async function DELETE(request: Request) {
+  const user = await authenticateRequest(request);
+  if (!user) {
+    return jsonError(401, 'unauthenticated', 'Sign in to remove favorites');
+  }
+
+  const body = await readJsonBody<FavoriteChangeRequest>(request);
+  const myDailyId = typeof body?.myDailyId === 'string' ? body.myDailyId : '';
+  const favoritedDailyId = typeof body?.favoritedDailyId === 'string' ? body.favoritedDailyId : '';
+
+  if (!favoritedDailyId) {
+    return jsonError(400, 'invalid-request', 'A daily ID is required');
+  }
+
+  try {
+    if (myDailyId && !(await ownsDailyId(user, myDailyId))) {
+      return jsonError(403, 'not-daily-id-owner', 'This daily ID does not belong to you');
+    }
+
+    const otherUserId = await getDailyIdOwner(favoritedDailyId);
+    if (!otherUserId) {
+      return jsonError(404, 'daily-id-not-found', 'User not found or daily ID expired');
+    }
+
+    const result = await removeFavorite(user.uid, otherUserId, favoritedDailyId);
+    if (!result.success) {
+      return favoriteChangeError(result);
+    }
+
+    // Without the caller's daily ID there is no chat to post in
+    if (myDailyId) {
+      after(() => announceUnfavorite(myDailyId, favoritedDailyId));
+    }
+
+    return jsonOk<FavoriteChangeResponse>(toFavoriteChangeResponse(result));
+  } catch (error) {
+    console.error('Error removing favorite:', error);
+    return jsonError(500, 'internal', 'Failed to remove favorite');
+  }
+}
+
+function favoriteChangeError(result: FavoriteChange) {
+  const message = result.message || 'Favorite could not be changed';
+
+  switch (result.failure) {
+    case 'locked': {
+      const details: ConnectionLockedDetails = { lockExpiresAt: result.lockExpiresAt! };
+      return jsonError(409, 'connection-locked', message, { ...details });
+    }
+    case 'already-favorited':
+      return jsonError(409, 'already-favorited', message);
+    default:
+      return jsonError(404, 'favorite-not-found', message);
+  }
+}
+
+function toFavoriteChangeResponse(result: FavoriteChange): FavoriteChangeResponse {
+  return {
+    message: result.message || '',
+    mutualConnection: Boolean(result.mutualConnection),
+    connectionToken: result.connectionToken,
+    lockExpiresAt: result.lockExpiresAt,
+    streakCount: result.streakCount,
+    usedStreakFreeze: result.usedStreakFreeze,
+    freezeBalance: result.freezeBalance
+  };
+}
+
+/**
+ * Tell both users the favorite became mutual (or extended their streak) and push it to the other one
+ */
+async function notifyMutualFavorite(
+  userId: string,
+  myDailyId: string,
+  otherUserId: string,
+  otherDailyId: string,
+  streakCount: number
+): Promise<void> {
+  if (await isBlockedBetween(userId, otherUserId)) {
+    return;
+  }
+
+  const eventFor = (dailyId: string): AppNotificationEvent =>
+    streakCount > 1
+      ? { type: 'streak-extended', otherDailyId: dailyId, streakCount }
+      : { type: 'mutual-connection', otherDailyId: dailyId };
+
+  await Promise.all([
+    createAppNotification(userId, eventFor(otherDailyId)),
+    createAppNotification(otherUserId, eventFor(myDailyId)),
+    sendPushToUser(otherUserId, { type: 'mutual-favorite', otherDailyId: myDailyId })
+  ]);
+}
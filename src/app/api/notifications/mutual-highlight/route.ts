@@ -0,0 +1,72 @@
+import { authenticateRequest, getDailyIdOwner, ownsDailyId } from '@/lib/server/auth';
+import { getChatParticipants } from '@/lib/server/chatMessages';
+import { adminDb } from '@/lib/server/firebaseAdmin';
+import { hasHighlightedMessage } from '@/lib/server/highlights';
+import { createAppNotification } from '@/lib/server/notifications';
+import { jsonError, jsonOk, readJsonBody } from '@/lib/server/http';
+import { generateStoryId } from '@/lib/chatUtils';
+import type { MutualHighlightNotifyRequest, NotifyResponse } from '@/types/api';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Tell both participants that a highlight became mutual
+ * Only sent once the queued story exists and both owners of the chat's daily IDs highlighted the message;
+ * recipients are resolved from the daily IDs, never from the client-written story.
+ */
+export async function POST(request: Request) {
+  const user = await authenticateRequest(request);
+  if (!user) {
+    return jsonError(401, 'unauthenticated', 'Sign in to send notifications');
+  }
+
+  const body = await readJsonBody<MutualHighlightNotifyRequest>(request);
+  const myDailyId = typeof body?.myDailyId === 'string' ? body.myDailyId : '';
+  const chatId = typeof body?.chatId === 'string' ? body.chatId : '';
+  const messageId = typeof body?.messageId === 'string' ? body.messageId : '';
+
+  if (!myDailyId || !chatId || !messageId) {
+    return jsonError(400, 'invalid-request', 'Daily ID, chat ID and message ID are required');
+  }
+
+  try {
+    if (!(await ownsDailyId(user, myDailyId))) {
+      return jsonError(403, 'not-daily-id-owner', 'This daily ID does not belong to you');
+    }
+
+    const participants = await getChatParticipants(chatId);
+    if (!participants) {
+      return jsonError(404, 'chat-not-found', 'Chat not found');
+    }
+
+    const otherDailyId = Object.keys(participants).find((dailyId) => dailyId !== myDailyId);
+    if (!participants[myDailyId] || !otherDailyId) {
+      return jsonError(403, 'not-a-participant', 'You are not a participant in this chat');
+    }
+
+    const otherUserId = await getDailyIdOwner(otherDailyId);
+    if (!otherUserId) {
+      return jsonError(404, 'daily-id-not-found', 'User not found or daily ID expired');
+    }
+
+    const storyId = generateStoryId(chatId, messageId);
+    const [storyDoc, highlightedByMe, highlightedByThem] = await Promise.all([
+      adminDb.collection('queuedStories').doc(storyId).get(),
+      hasHighlightedMessage(user.uid, messageId),
+      hasHighlightedMessage(otherUserId, messageId)
+    ]);
+    if (!storyDoc.exists || !highlightedByMe || !highlightedByThem) {
+      return jsonError(409, 'invalid-request', 'This highlight is not mutual');
+    }
+
+    const [mine, theirs] = await Promise.all([
+      createAppNotification(user.uid, { type: 'mutual-highlight', otherDailyId, storyId }),
+      createAppNotification(otherUserId, { type: 'mutual-highlight', otherDailyId: myDailyId, storyId })
+    ]);
+
+    return jsonOk<NotifyResponse>({ notified: Number(mine) + Number(theirs), delivered: 0 });
+  } catch (error) {
+    console.error('Error sending mutual highlight notifications:', error);
+    return jsonError(500, 'internal', 'Failed to send notification');
+  }
+}
@@ -0,0 +1,58 @@
+import { authenticateRequest } from '@/lib/server/auth';
+import { adminDb } from '@/lib/server/firebaseAdmin';
+import { createAppNotification } from '@/lib/server/notifications';
+import { sendPushToUser } from '@/lib/server/push';
+import { jsonError, jsonOk, readJsonBody } from '@/lib/server/http';
+import type { QueuedStory } from '@/types/highlights';
+import type { NotifyResponse, StoryReviewedNotifyRequest } from '@/types/api';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Tell both authors how their story was reviewed (admins only)
+ * Approvals are also pushed; rejections only reach the notification center.
+ */
+export async function POST(request: Request) {
+  const user = await authenticateRequest(request);
+  if (!user) {
+    return jsonError(401, 'unauthenticated', 'Sign in to send notifications');
+  }
+
+  if (!user.isAdmin) {
+    return jsonError(403, 'forbidden', 'Only admins can announce story reviews');
+  }
+
+  const body = await readJsonBody<StoryReviewedNotifyRequest>(request);
+  const storyId = typeof body?.storyId === 'string' ? body.storyId : '';
+  if (!storyId) {
+    return jsonError(400, 'invalid-request', 'Story ID is required');
+  }
+
+  try {
+    const storyDoc = await adminDb.collection('queuedStories').doc(storyId).get();
+    const story = storyDoc.exists ? (storyDoc.data() as QueuedStory) : null;
+    if (story?.status !== 'approved' && story?.status !== 'rejected') {
+      return jsonError(409, 'invalid-request', 'This story has not been reviewed');
+    }
+
+    const approved = story.status === 'approved';
+    const authorIds = [story.metadata.user1Id, story.metadata.user2Id];
+
+    const notified = await Promise.all(
+      authorIds.map((userId) =>
+        createAppNotification(userId, { type: approved ? 'story-approved' : 'story-rejected', storyId })
+      )
+    );
+    const delivered = approved
+      ? await Promise.all(authorIds.map((userId) => sendPushToUser(userId, { type: 'story-approved', storyId })))
+      : [0, 0];
+
+    return jsonOk<NotifyResponse>({
+      notified: notified.filter(Boolean).length,
+      delivered: delivered[0] + delivered[1]
+    });
+  } catch (error) {
+    console.error('Error sending story review notifications:', error);
+    return jsonError(500, 'internal', 'Failed to send notification');
+  }
+}
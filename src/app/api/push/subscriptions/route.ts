@@ -0,0 +1,62 @@
+import { authenticateRequest } from '@/lib/server/auth';
+import {
+  deletePushSubscription,
+  getPushSender,
+  isValidPushSubscription,
+  savePushSubscription
+} from '@/lib/server/push';
+import { jsonError, jsonOk, readJsonBody } from '@/lib/server/http';
+import type { PushSubscriptionRequest } from '@/types/api';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Subscribe this device to push notifications for the signed-in user
+ */
+export async function POST(request: Request) {
+  const user = await authenticateRequest(request);
+  if (!user) {
+    return jsonError(401, 'unauthenticated', 'Sign in to turn on notifications');
+  }
+
+  if (!getPushSender()) {
+    return jsonError(503, 'push-unavailable', 'Notifications are not available right now');
+  }
+
+  const body = await readJsonBody<PushSubscriptionRequest>(request);
+  if (!isValidPushSubscription(body?.subscription)) {
+    return jsonError(400, 'invalid-request', 'A valid push subscription is required');
+  }
+
+  try {
+    await savePushSubscription(user.uid, body.subscription);
+    return jsonOk({}, 201);
+  } catch (error) {
+    console.error('Error saving push subscription:', error);
+    return jsonError(500, 'internal', 'Failed to turn on notifications');
+  }
+}
+
+/**
+ * Unsubscribe this device
+ */
+export async function DELETE(request: Request) {
+  const user = await authenticateRequest(request);
+  if (!user) {
+    return jsonError(401, 'unauthenticated', 'Sign in to turn off notifications');
+  }
+
+  const body = await readJsonBody<PushSubscriptionRequest>(request);
+  const endpoint = typeof body?.endpoint === 'string' ? body.endpoint : '';
+  if (!endpoint) {
+    return jsonError(400, 'invalid-request', 'Subscription endpoint is required');
+  }
+
+  try {
+    await deletePushSubscription(user.uid, endpoint);
+    return jsonOk({});
+  } catch (error) {
+    console.error('Error deleting push subscription:', error);
+    return jsonError(500, 'internal', 'Failed to turn off notifications');
+  }
+}
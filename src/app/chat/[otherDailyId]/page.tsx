@@ -1,8 +1,10 @@
 import type { Metadata } from "next";
 import ChatContainer from '@/components/ChatContainer';
-import { formatDailyId } from '@/lib/dailyId';
+import InvalidDailyId from '@/components/InvalidDailyId';
+import { formatDailyId, validateDailyId } from '@/lib/dailyId';
+import { isAdminSupportDailyId } from '@/config/adminSupport';
 
-function getDisplayId(rawId: string): { displayId: string; shareableId: string } {
+function getDisplayId(rawId: string): { displayId: string; shareableId: string; isValid: boolean } {
   const decoded = decodeURIComponent(rawId || '').trim();
   const numericOnly = decoded.replace(/\D/g, '').slice(0, 8);
 
@@ -10,6 +12,7 @@ function getDisplayId(rawId: string): { displayId: string; shareableId: string }
     return {
       displayId: formatDailyId(numericOnly),
       shareableId: numericOnly,
+      isValid: validateDailyId(numericOnly),
     };
   }
 
@@ -18,6 +21,7 @@ function getDisplayId(rawId: string): { displayId: string; shareableId: string }
   return {
     displayId: fallback,
     shareableId: fallback,
+    isValid: isAdminSupportDailyId(sanitized),
   };
 }
 
@@ -65,7 +69,12 @@ export default async function ChatPage({
   params: Promise<{ otherDailyId: string }>;
 }) {
   const { otherDailyId } = await params;
-  const { shareableId } = getDisplayId(otherDailyId);
+  const { shareableId, isValid } = getDisplayId(otherDailyId);
+
+  // Reject mistyped IDs before ChatContainer queries anything
+  if (!isValid) {
+    return <InvalidDailyId rawId={shareableId} />;
+  }
 
   return <ChatContainer otherDailyId={shareableId} />;
 }
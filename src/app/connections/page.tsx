@@ -0,0 +1,184 @@
+'use client';
+
+/**
+ * Connections You Made
+ *
+ * Everyone the user has mutually favorited, shown under the partner's daily ID
+ * for today with the current and longest streak, milestone badges and a
+ * favorite-history heatmap. Reconnecting opens a chat without using one of the
+ * daily new-chat slots.
+ */
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { useDailyId } from '@/hooks/useDailyId';
+import { useConnections, type ConnectionListItem } from '@/hooks/useConnections';
+import { useNotifications } from '@/components/ui/NotificationProvider';
+import StreakHeatmap from '@/components/StreakHeatmap';
+import { formatDailyId } from '@/lib/dailyId';
+import styles from './connections.module.css';
+
+function formatConnectedSince(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+export default function ConnectionsPage() {
+  const router = useRouter();
+  const { user, loading: authLoading } = useAuth();
+  const userId = user?.uid ?? null;
+  const { dailyId, loading: dailyIdLoading } = useDailyId(userId);
+  const { connections, loading, error, reconnect } = useConnections(userId);
+  const { notify } = useNotifications();
+  const [openingToken, setOpeningToken] = useState<string | null>(null);
+  const [expandedToken, setExpandedToken] = useState<string | null>(null);
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/login');
+    }
+  }, [user, authLoading, router]);
+
+  const handleReconnect = async (connection: ConnectionListItem) => {
+    if (!dailyId || !connection.partnerDailyId) return;
+
+    setOpeningToken(connection.connectionToken);
+    const result = await reconnect(connection.connectionToken, dailyId);
+    setOpeningToken(null);
+
+    if (!result.success) {
+      notify({
+        tone: 'error',
+        title: 'Could not reconnect',
+        message: result.message || 'Please try again.'
+      });
+      return;
+    }
+
+    router.push(`/chat/${connection.partnerDailyId}`);
+  };
+
+  // Loading state
+  if (authLoading || dailyIdLoading || loading) {
+    return (
+      <div className={styles.container}>
+        <div className={styles.loaderCard}>
+          <div className={styles.loaderIcon} aria-hidden="true">🤝</div>
+          <h2>Finding your connections...</h2>
+        </div>
+      </div>
+    );
+  }
+
+  // Not authenticated
+  if (!user) {
+    return null; // Will redirect via useEffect
+  }
+
+  return (
+    <div className={styles.container}>
+      <header className={styles.header}>
+        <h1 className={styles.title}>
+          <span className={styles.icon}>🤝</span>
+          Connections You Made
+        </h1>
+        <button
+          className={styles.homeButton}
+          onClick={() => router.push('/')}
+        >
+          🏠 Home
+        </button>
+      </header>
+
+      <p className={styles.subtitle}>
+        People you favorited each other with, under their daily ID for today. Reconnecting is free and
+        does not count against your daily chats.
+      </p>
+
+      {error && (
+        <div className={styles.error}>
+          <span className={styles.errorIcon}>⚠️</span>
+          {error}
+        </div>
+      )}
+
+      <main className={styles.main}>
+        {connections.length === 0 ? (
+          <div className={styles.emptyState}>
+            <span className={styles.emptyIcon}>💫</span>
+            <p>No connections yet</p>
+            <p className={styles.emptySubtext}>
+              When you and someone favorite each other, they show up here and you can find them again
+              after their daily ID changes.
+            </p>
+          </div>
+        ) : (
+          <ul className={styles.connectionList}>
+            {connections.map((connection) => (
+              <li key={connection.connectionToken} className={styles.connectionItem}>
+                <div className={styles.connectionRow}>
+                  <span
+                    className={`${styles.statusDot} ${connection.isOnline ? styles.online : ''}`}
+                    title={connection.isOnline ? 'Online' : 'Offline'}
+                    aria-label={connection.isOnline ? 'Online' : 'Offline'}
+                  />
+                  <span className={styles.connectionBody}>
+                    <span className={styles.connectionName}>
+                      {connection.partnerDailyId
+                        ? formatDailyId(connection.partnerDailyId)
+                        : 'Not signed in yet today'}
+                    </span>
+                    <span className={styles.connectionMeta}>
+                      {connection.status === 'expired'
+                        ? `🥀 Lost a ${connection.streakCount}-day streak`
+                        : connection.streakActive
+                          ? `🔥 ${connection.streakCount}-day streak`
+                          : 'Streak ended'}
+                      {connection.freezeBalance > 0 && (
+                        <span title="Each streak freeze covers one missed day">
+                          {' · '}🧊 {connection.freezeBalance} freeze{connection.freezeBalance === 1 ? '' : 's'}
+                        </span>
+                      )}
+                      {' · '}
+                      Connected since {formatConnectedSince(connection.createdAt)}
+                    </span>
+                  </span>
+                  <button
+                    type="button"
+                    className={styles.chatButton}
+                    onClick={() => handleReconnect(connection)}
+                    disabled={!dailyId || !connection.partnerDailyId || openingToken !== null}
+                  >
+                    {openingToken === connection.connectionToken ? 'Opening…' : 'Chat'}
+                  </button>
+                </div>
+                <div className={styles.connectionStats}>
+                  <span>Longest streak: {connection.longestStreak} day{connection.longestStreak === 1 ? '' : 's'}</span>
+                  {connection.milestones.map((milestone) => (
+                    <span key={milestone} className={styles.milestoneBadge} title={`Reached a ${milestone}-day streak`}>
+                      🏅 {milestone}
+                    </span>
+                  ))}
+                  <button
+                    type="button"
+                    className={styles.historyToggle}
+                    onClick={() => setExpandedToken((current) => (
+                      current === connection.connectionToken ? null : connection.connectionToken
+                    ))}
+                    aria-expanded={expandedToken === connection.connectionToken}
+                  >
+                    {expandedToken === connection.connectionToken ? 'Hide history' : 'History'}
+                  </button>
+                </div>
+                {expandedToken === connection.connectionToken && (
+                  <StreakHeatmap history={connection.history} />
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || "https://ghostmate.online";
+
+export default function InboxHead() {
+  const title = "Inbox - Today's Conversations";
+  const description =
+    "Everyone you talked to on GhostMate today, with unread messages and who is online. Conversations reset daily.";
+  const url = `${baseUrl}/inbox`;
+
+  return (
+    <>
+      <title>{`${title} | GhostMate`}</title>
+      <link rel="canonical" href={url} />
+      <meta name="description" content={description} />
+      <meta name="keywords" content="ghostmate inbox, anonymous chats, daily conversations" />
+      <meta property="og:url" content={url} />
+      <meta property="og:title" content={title} />
+      <meta property="og:description" content={description} />
+      <meta property="og:type" content="website" />
+      <meta property="og:site_name" content="GhostMate" />
+      <meta name="twitter:card" content="summary_large_image" />
+      <meta name="twitter:url" content={url} />
+      <meta name="twitter:title" content={title} />
+      <meta name="twitter:description" content={description} />
+      <meta name="robots" content="noindex, nofollow" />
+    </>
+  );
+}
+
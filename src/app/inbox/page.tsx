@@ -0,0 +1,137 @@
+'use client';
+
+/**
+ * Inbox
+ *
+ * Lists everyone the user has talked to today, most recent activity first,
+ * with the last message, unread count, and online/favorite status.
+ */
+
+import { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { useDailyId } from '@/hooks/useDailyId';
+import { useInbox } from '@/hooks/useInbox';
+import { formatDailyId } from '@/lib/dailyId';
+import { formatMessageTime } from '@/lib/chatUtils';
+import { getResetTimeLabel } from '@/lib/resetClock';
+import { ADMIN_SUPPORT_DISPLAY_NAME, isAdminSupportDailyId } from '@/config/adminSupport';
+import styles from './inbox.module.css';
+
+export default function InboxPage() {
+  const router = useRouter();
+  const { user, loading: authLoading } = useAuth();
+  const userId = user?.uid ?? null;
+  const { dailyId, loading: dailyIdLoading, error } = useDailyId(userId);
+  const { conversations, loading } = useInbox(userId, dailyId);
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/login');
+    }
+  }, [user, authLoading, router]);
+
+  // Loading state
+  if (authLoading || dailyIdLoading || loading) {
+    return (
+      <div className={styles.container}>
+        <div className={styles.loaderCard}>
+          <div className={styles.loaderIcon} aria-hidden="true">💬</div>
+          <h2>Opening your inbox...</h2>
+        </div>
+      </div>
+    );
+  }
+
+  // Not authenticated
+  if (!user) {
+    return null; // Will redirect via useEffect
+  }
+
+  return (
+    <div className={styles.container}>
+      <header className={styles.header}>
+        <h1 className={styles.title}>
+          <span className={styles.icon}>💬</span>
+          Inbox
+        </h1>
+        <button
+          className={styles.homeButton}
+          onClick={() => router.push('/')}
+        >
+          🏠 Home
+        </button>
+      </header>
+
+      <p className={styles.subtitle}>
+        Today&apos;s conversations. Everything resets at {getResetTimeLabel()}.
+      </p>
+
+      {error && (
+        <div className={styles.error}>
+          <span className={styles.errorIcon}>⚠️</span>
+          {error}
+        </div>
+      )}
+
+      <main className={styles.main}>
+        {conversations.length === 0 ? (
+          <div className={styles.emptyState}>
+            <span className={styles.emptyIcon}>📭</span>
+            <p>No conversations yet</p>
+            <p className={styles.emptySubtext}>
+              Start a chat with someone online and it will show up here until the daily reset.
+            </p>
+          </div>
+        ) : (
+          <ul className={styles.chatList}>
+            {conversations.map((conversation) => {
+              const isSupport = isAdminSupportDailyId(conversation.otherUserDailyId);
+              const name = isSupport
+                ? ADMIN_SUPPORT_DISPLAY_NAME
+                : formatDailyId(conversation.otherUserDailyId);
+
+              return (
+                <li key={conversation.chatId}>
+                  <button
+                    type="button"
+                    className={`${styles.chatItem} ${conversation.unreadCount > 0 ? styles.unread : ''}`}
+                    onClick={() => router.push(`/chat/${conversation.otherUserDailyId}`)}
+                  >
+                    <span
+                      className={`${styles.statusDot} ${conversation.isOnline ? styles.online : ''}`}
+                      title={conversation.isOnline ? 'Online' : 'Offline'}
+                      aria-label={conversation.isOnline ? 'Online' : 'Offline'}
+                    />
+                    <span className={styles.chatBody}>
+                      <span className={styles.chatName}>
+                        {name}
+                        {conversation.isFavorited && (
+                          <span className={styles.favoriteBadge} title="Favorited" aria-label="Favorited">★</span>
+                        )}
+                      </span>
+                      <span className={styles.preview}>
+                        {conversation.lastMessage || 'No messages yet'}
+                      </span>
+                    </span>
+                    <span className={styles.chatMeta}>
+                      {conversation.lastMessageTimestamp ? (
+                        <span className={styles.time}>{formatMessageTime(conversation.lastMessageTimestamp)}</span>
+                      ) : null}
+                      {conversation.unreadCount > 0 && (
+                        <span className={styles.unreadBadge} aria-label={`${conversation.unreadCount} unread`}>
+                          {conversation.unreadCount > 99 ? '99+' : conversation.unreadCount}
+                        </span>
+                      )}
+                    </span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import type { Metadata } from "next";
 import HomePageClient from "@/components/pages/HomePageClient";
+import { getResetTimeLabel } from "@/lib/resetClock";
 
 const BASE_TITLE = "GhostMate - Anonymous Conversations, Real Connections";
 const BASE_DESCRIPTION =
@@ -46,7 +47,7 @@ export default function Home() {
       url: BASE_URL,
     },
     featureList: [
-      "Anonymous daily IDs that reset at midnight PKT",
+      `Anonymous daily IDs that reset at ${getResetTimeLabel()}`,
       "Ephemeral chat history and highlights",
       "Realtime online presence",
       "Story highlights curated by admins",
@@ -1,9 +1,12 @@
 'use client';
 
 import Link from 'next/link';
+import { getResetTimeLabel } from '@/lib/resetClock';
 import styles from './privacy.module.css';
 
 export default function PrivacyPolicyPage() {
+  const resetTimeLabel = getResetTimeLabel();
+
   return (
     <div className={styles.container}>
       {/* Floating Ghost Elements */}
@@ -53,7 +56,7 @@ export default function PrivacyPolicyPage() {
           </p>
           <ul className={styles.list}>
             <li>Cannot be traced back to your Google account</li>
-            <li>Changes every day at midnight (PKT)</li>
+            <li>Changes every day at {resetTimeLabel}</li>
             <li>Is automatically deleted after 24 hours</li>
           </ul>
 
@@ -63,7 +66,7 @@ export default function PrivacyPolicyPage() {
           </p>
           <ul className={styles.list}>
             <li>Stored temporarily in our database</li>
-            <li>Automatically deleted at midnight daily</li>
+            <li>Automatically deleted at the daily reset</li>
             <li>Never backed up or archived</li>
             <li>Completely ephemeral by design</li>
           </ul>
@@ -88,7 +91,7 @@ export default function PrivacyPolicyPage() {
           
           <h3 className={styles.subheading}>Automatic Daily Deletion</h3>
           <p className={styles.text}>
-            Every day at midnight (Pakistan Standard Time):
+            Every day at {resetTimeLabel}:
           </p>
           <ul className={styles.list}>
             <li>All chat messages are permanently deleted</li>
@@ -133,7 +136,7 @@ export default function PrivacyPolicyPage() {
           </p>
           <ul className={styles.list}>
             <li><strong>Access:</strong> Request information about data we store (minimal as it is)</li>
-            <li><strong>Deletion:</strong> Sign out and all your active data is deleted at midnight</li>
+            <li><strong>Deletion:</strong> Sign out and all your active data is deleted at the next daily reset</li>
             <li><strong>Anonymity:</strong> Your real identity is never revealed to other users</li>
             <li><strong>Opt-Out:</strong> Simply stop using GhostMate; your data auto-deletes daily</li>
           </ul>
@@ -1,9 +1,12 @@
 'use client';
 
 import Link from 'next/link';
+import { getResetTimeLabel } from '@/lib/resetClock';
 import styles from './terms.module.css';
 
 export default function TermsOfUsePage() {
+  const resetTimeLabel = getResetTimeLabel();
+
   return (
     <div className={styles.container}>
       {/* Floating Ghost Elements */}
@@ -39,7 +42,7 @@ export default function TermsOfUsePage() {
             GhostMate is an anonymous chat platform where:
           </p>
           <ul className={styles.list}>
-            <li>Users receive a unique daily ID that resets at midnight (PKT)</li>
+            <li>Users receive a unique daily ID that resets at {resetTimeLabel}</li>
             <li>All chat messages are automatically deleted daily</li>
             <li>Up to 5 new chat connections can be initiated per day</li>
             <li>Users can create favorites and maintain connection streaks</li>
@@ -120,7 +123,7 @@ export default function TermsOfUsePage() {
           <ul className={styles.list}>
             <li>Display your messages to your chat partners</li>
             <li>Feature mutually highlighted messages as anonymous stories</li>
-            <li>Store messages temporarily until midnight deletion</li>
+            <li>Store messages temporarily until the daily reset deletes them</li>
           </ul>
 
           <h3 className={styles.subheading}>Stories Feature</h3>
@@ -142,9 +145,9 @@ export default function TermsOfUsePage() {
           </p>
           <ul className={styles.list}>
             <li><strong>Chat Limit:</strong> 5 new chat initiations per day</li>
-            <li><strong>Daily Reset:</strong> Occurs at midnight (Pakistan Standard Time)</li>
+            <li><strong>Daily Reset:</strong> Occurs every day at {resetTimeLabel}</li>
             <li><strong>ID Change:</strong> Your 8-digit ID changes daily</li>
-            <li><strong>Message Deletion:</strong> All messages are permanently deleted at midnight</li>
+            <li><strong>Message Deletion:</strong> All messages are permanently deleted at the daily reset</li>
             <li><strong>Connection Streaks:</strong> Persist across days if maintained</li>
           </ul>
         </div>
@@ -154,7 +157,7 @@ export default function TermsOfUsePage() {
           
           <h3 className={styles.subheading}>Your Right to Leave</h3>
           <p className={styles.text}>
-            You may stop using GhostMate at any time by simply signing out. Your data will be automatically deleted at the next midnight reset.
+            You may stop using GhostMate at any time by simply signing out. Your data will be automatically deleted at the next daily reset.
           </p>
 
           <h3 className={styles.subheading}>Our Right to Terminate</h3>
@@ -8,7 +8,7 @@
  */
 
 import { useEffect, useMemo, useRef, useState } from 'react';
-import type { KeyboardEvent } from 'react';
+import type { FormEvent, KeyboardEvent } from 'react';
 import { useRouter } from 'next/navigation';
 import { onAuthStateChanged, signOut } from 'firebase/auth';
 import { getQueuedStories, approveStory, rejectStory } from '@/lib/storiesService';
@@ -26,6 +26,13 @@ import { Chat, Message } from '@/types/chat';
 import { listenToMessages, sendMessage as sendChatMessage } from '@/lib/chatService';
 import { ADMIN_SUPPORT_DAILY_ID, ADMIN_SUPPORT_DISPLAY_NAME } from '@/config/adminSupport';
 import { formatDailyId, getTodayDateString } from '@/lib/dailyId';
+import { getResetTimeLabel } from '@/lib/resetClock';
+import { grantExtraChats } from '@/lib/chatLimitService';
+import { getUserIdFromDailyId } from '@/lib/dailyIdService';
+import { MAX_GRANTED_CHATS } from '@/config/chatLimits';
+import { applyReportAction, getOpenReports } from '@/lib/moderationService';
+import { BAN_SCOPES, REPORT_REASONS } from '@/types/moderation';
+import type { BanScope, ModerationAction, Report } from '@/types/moderation';
 
 interface SupportChatSummary {
   chatId: string;
@@ -52,6 +59,17 @@ export default function TrueAdminPanel() {
   const [supportInput, setSupportInput] = useState('');
   const [supportSending, setSupportSending] = useState(false);
   const [supportError, setSupportError] = useState<string | null>(null);
+  const [grantDailyId, setGrantDailyId] = useState('');
+  const [grantAmount, setGrantAmount] = useState('1');
+  const [grantReason, setGrantReason] = useState('');
+  const [grantLoading, setGrantLoading] = useState(false);
+  const [reports, setReports] = useState<Report[]>([]);
+  const [activeTab, setActiveTab] = useState<'stories' | 'reports'>('stories');
+  const [reportNotes, setReportNotes] = useState<Record<string, string>>({});
+  const [banUntilDates, setBanUntilDates] = useState<Record<string, string>>({});
+  const [banScopes, setBanScopes] = useState<Record<string, BanScope>>({});
+  // YYYY-MM-DD one week out, for the ban date picker
+  const defaultBanUntil = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toLocaleDateString('en-CA');
   const lastCleanupDateRef = useRef<string>(getTodayDateString());
   const autoCleanupInFlightRef = useRef(false);
 
@@ -89,6 +107,13 @@ export default function TrueAdminPanel() {
     fetchStories();
   }, [isAdmin]);
 
+  // Fetch open moderation reports
+  useEffect(() => {
+    if (!isAdmin) return;
+
+    getOpenReports().then(setReports);
+  }, [isAdmin]);
+
   useEffect(() => {
     lastCleanupDateRef.current = getTodayDateString();
 
@@ -192,6 +217,78 @@ export default function TrueAdminPanel() {
     }
   };
 
+  const handleGrantChats = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    const dailyId = grantDailyId.trim().toUpperCase();
+    const extraChats = Number.parseInt(grantAmount, 10);
+
+    if (!dailyId) {
+      setError('Enter the daily ID to grant chats to.');
+      return;
+    }
+
+    try {
+      setGrantLoading(true);
+      setError(null);
+      setSuccessMessage(null);
+
+      const userId = await getUserIdFromDailyId(dailyId);
+      if (!userId) {
+        setError(`Daily ID ${formatDailyId(dailyId)} is not active today.`);
+        return;
+      }
+
+      const result = await grantExtraChats(
+        userId,
+        extraChats,
+        auth.currentUser?.email || 'admin',
+        grantReason.trim() || undefined
+      );
+
+      if (result.success) {
+        setSuccessMessage(
+          `🎟️ ${result.message} to ${formatDailyId(dailyId)} (${result.totalGranted} granted today).`
+        );
+        setGrantDailyId('');
+        setGrantReason('');
+      } else {
+        setError(result.message);
+      }
+    } finally {
+      setGrantLoading(false);
+    }
+  };
+
+  const handleReportAction = async (report: Report, action: ModerationAction) => {
+    const banScope = banScopes[report.reportId] ?? 'full';
+    if (action === 'ban' && !window.confirm(`${BAN_SCOPES[banScope]} for ${report.reportedUserId} until ${banUntilDates[report.reportId] || defaultBanUntil}?`)) {
+      return;
+    }
+
+    setActionLoading(report.reportId);
+    setError(null);
+    setSuccessMessage(null);
+
+    const result = await applyReportAction(report, action, auth.currentUser?.email || 'admin', {
+      note: reportNotes[report.reportId],
+      // End of the chosen day in the admin's local time
+      banUntil: action === 'ban'
+        ? new Date(`${banUntilDates[report.reportId] || defaultBanUntil}T23:59:59`)
+        : undefined,
+      banScope
+    });
+
+    if (result.success) {
+      setSuccessMessage(result.message);
+      setReports(prev => prev.filter(entry => entry.reportId !== report.reportId));
+    } else {
+      setError(result.message);
+    }
+
+    setActionLoading(null);
+  };
+
   const handleDeleteAllChats = async () => {
     if (!window.confirm('Delete every chat today? This cannot be undone.')) {
       return;
@@ -523,7 +620,7 @@ export default function TrueAdminPanel() {
           <div className={styles.maintenanceCard}>
             <div>
               <h3>Clear Expired Chats</h3>
-              <p>Deletes chat messages that passed midnight PKT and prunes empty threads.</p>
+              <p>Deletes chat messages that passed {getResetTimeLabel()} and prunes empty threads.</p>
             </div>
             <button
               className={styles.maintenanceButton}
@@ -550,6 +647,46 @@ export default function TrueAdminPanel() {
         </div>
       </section>
 
+      <section className={styles.maintenanceSection}>
+        <h2 className={styles.sectionTitle}>Chat Quotas</h2>
+        <form className={styles.grantForm} onSubmit={handleGrantChats}>
+          <p className={styles.grantHint}>
+            Grant one-off extra chats for today. They expire at {getResetTimeLabel()} and add to the user&apos;s
+            default limit and streak bonus.
+          </p>
+          <input
+            className={styles.grantInput}
+            value={grantDailyId}
+            onChange={(event) => setGrantDailyId(event.target.value)}
+            placeholder="Daily ID"
+            aria-label="Daily ID"
+            disabled={grantLoading}
+          />
+          <input
+            className={styles.grantInput}
+            type="number"
+            min={1}
+            max={MAX_GRANTED_CHATS}
+            value={grantAmount}
+            onChange={(event) => setGrantAmount(event.target.value)}
+            aria-label="Extra chats"
+            disabled={grantLoading}
+          />
+          <input
+            className={styles.grantInput}
+            value={grantReason}
+            onChange={(event) => setGrantReason(event.target.value)}
+            placeholder="Reason (optional)"
+            aria-label="Reason"
+            maxLength={200}
+            disabled={grantLoading}
+          />
+          <button className={styles.maintenanceButton} type="submit" disabled={grantLoading}>
+            {grantLoading ? 'Granting…' : 'Grant Chats'}
+          </button>
+        </form>
+      </section>
+
       <section className={styles.supportSection}>
         <h2 className={styles.sectionTitle}>{ADMIN_SUPPORT_DISPLAY_NAME} Inbox</h2>
         <div className={styles.supportLayout}>
@@ -663,6 +800,25 @@ export default function TrueAdminPanel() {
         </div>
       </section>
 
+      <div className={styles.tabs} role="tablist">
+        <button
+          role="tab"
+          aria-selected={activeTab === 'stories'}
+          className={`${styles.tab} ${activeTab === 'stories' ? styles.tabActive : ''}`}
+          onClick={() => setActiveTab('stories')}
+        >
+          📚 Stories ({queuedStoriesWithLockState.length})
+        </button>
+        <button
+          role="tab"
+          aria-selected={activeTab === 'reports'}
+          className={`${styles.tab} ${activeTab === 'reports' ? styles.tabActive : ''}`}
+          onClick={() => setActiveTab('reports')}
+        >
+          🛡️ Reports ({reports.length})
+        </button>
+      </div>
+
       <div className={styles.stats}>
         <div className={styles.statCard}>
           <span className={styles.statValue}>{queuedStoriesWithLockState.length}</span>
@@ -686,82 +842,210 @@ export default function TrueAdminPanel() {
         </div>
       )}
 
-      <main className={styles.main}>
-        <h2 className={styles.sectionTitle}>Queued Stories (Pending Review)</h2>
-
-        {queuedStoriesWithLockState.length === 0 ? (
-          <div className={styles.emptyState}>
-            <span className={styles.emptyIcon}>📭</span>
-            <p>No stories in queue</p>
-            <p className={styles.emptySubtext}>
-              Stories will appear here when both users highlight the same message
-            </p>
-          </div>
-        ) : (
-          <div className={styles.storyGrid}>
-            {queuedStoriesWithLockState.map(({ story, locked }) => (
-              <div key={story.storyId} className={styles.storyCard}>
-                <div className={styles.storyHeader}>
-                  <span className={styles.storyId}>#{story.storyId.slice(0, 8)}</span>
-                  <span className={styles.storyDate}>
-                    {story.queuedAt ? (() => {
-                      try {
-                        // Handle Firestore Timestamp
-                        if (story.queuedAt && typeof story.queuedAt === 'object' && 'toDate' in story.queuedAt) {
-                          const timestamp = story.queuedAt as { toDate: () => Date };
-                          return new Date(timestamp.toDate()).toLocaleDateString('en-US', {
+      {activeTab === 'stories' && (
+        <main className={styles.main}>
+          <h2 className={styles.sectionTitle}>Queued Stories (Pending Review)</h2>
+
+          {queuedStoriesWithLockState.length === 0 ? (
+            <div className={styles.emptyState}>
+              <span className={styles.emptyIcon}>📭</span>
+              <p>No stories in queue</p>
+              <p className={styles.emptySubtext}>
+                Stories will appear here when both users highlight the same message
+              </p>
+            </div>
+          ) : (
+            <div className={styles.storyGrid}>
+              {queuedStoriesWithLockState.map(({ story, locked }) => (
+                <div key={story.storyId} className={styles.storyCard}>
+                  <div className={styles.storyHeader}>
+                    <span className={styles.storyId}>#{story.storyId.slice(0, 8)}</span>
+                    <span className={styles.storyDate}>
+                      {story.queuedAt ? (() => {
+                        try {
+                          // Handle Firestore Timestamp
+                          if (story.queuedAt && typeof story.queuedAt === 'object' && 'toDate' in story.queuedAt) {
+                            const timestamp = story.queuedAt as { toDate: () => Date };
+                            return new Date(timestamp.toDate()).toLocaleDateString('en-US', {
+                              month: 'short',
+                              day: 'numeric',
+                              hour: '2-digit',
+                              minute: '2-digit'
+                            });
+                          }
+                          // Handle regular Date or timestamp
+                          return new Date(story.queuedAt as Date | number).toLocaleDateString('en-US', {
                             month: 'short',
                             day: 'numeric',
                             hour: '2-digit',
                             minute: '2-digit'
                           });
+                        } catch {
+                          return 'Unknown date';
                         }
-                        // Handle regular Date or timestamp
-                        return new Date(story.queuedAt as Date | number).toLocaleDateString('en-US', {
-                          month: 'short',
-                          day: 'numeric',
-                          hour: '2-digit',
-                          minute: '2-digit'
-                        });
-                      } catch {
-                        return 'Unknown date';
-                      }
-                    })() : 'Unknown date'}
-                  </span>
-                </div>
+                      })() : 'Unknown date'}
+                    </span>
+                  </div>
+
+                  <div className={styles.storyContent}>
+                    <p className={styles.messageText}>"{story.messageText}"</p>
+                  </div>
 
-                <div className={styles.storyContent}>
-                  <p className={styles.messageText}>"{story.messageText}"</p>
+                  {locked && (
+                    <div className={styles.lockBadge}>
+                      🔒 Locked until {getResetTimeLabel()}
+                    </div>
+                  )}
+
+                  <div className={styles.storyActions}>
+                    <button
+                      className={`${styles.actionButton} ${styles.approveButton}`}
+                      onClick={() => handleApprove(story.storyId)}
+                      disabled={locked || actionLoading === story.storyId}
+                      title={locked ? `Locked until ${getResetTimeLabel()}` : undefined}
+                    >
+                      {actionLoading === story.storyId ? '...' : '✅ Approve'}
+                    </button>
+                    <button
+                      className={`${styles.actionButton} ${styles.rejectButton}`}
+                      onClick={() => handleReject(story.storyId)}
+                      disabled={actionLoading === story.storyId}
+                    >
+                      {actionLoading === story.storyId ? '...' : '❌ Reject'}
+                    </button>
+                  </div>
                 </div>
+              ))}
+            </div>
+          )}
+        </main>
+      )}
 
-                {locked && (
-                  <div className={styles.lockBadge}>
-                    🔒 Locked until midnight PKT
+      {activeTab === 'reports' && (
+        <section className={styles.main}>
+          <h2 className={styles.sectionTitle}>Reports (Moderation Queue)</h2>
+
+          {reports.length === 0 ? (
+            <div className={styles.emptyState}>
+              <span className={styles.emptyIcon}>🛡️</span>
+              <p>No open reports</p>
+              <p className={styles.emptySubtext}>
+                Reports appear here when someone blocks and reports a person from a chat
+              </p>
+            </div>
+          ) : (
+            <div className={styles.storyGrid}>
+              {reports.map((report) => (
+                <div key={report.reportId} className={styles.storyCard}>
+                  <div className={styles.storyHeader}>
+                    <span className={styles.storyId}>{REPORT_REASONS[report.reason] ?? report.reason}</span>
+                    <span className={styles.storyDate}>
+                      {new Date(report.createdAt).toLocaleDateString('en-US', {
+                        month: 'short',
+                        day: 'numeric',
+                        hour: '2-digit',
+                        minute: '2-digit'
+                      })}
+                    </span>
                   </div>
-                )}
 
-                <div className={styles.storyActions}>
-                  <button
-                    className={`${styles.actionButton} ${styles.approveButton}`}
-                    onClick={() => handleApprove(story.storyId)}
-                    disabled={locked || actionLoading === story.storyId}
-                    title={locked ? 'Locked until midnight PKT' : undefined}
-                  >
-                    {actionLoading === story.storyId ? '...' : '✅ Approve'}
-                  </button>
-                  <button
-                    className={`${styles.actionButton} ${styles.rejectButton}`}
-                    onClick={() => handleReject(story.storyId)}
-                    disabled={actionLoading === story.storyId}
-                  >
-                    {actionLoading === story.storyId ? '...' : '❌ Reject'}
-                  </button>
+                  <div className={styles.storyContent}>
+                    {/* UIDs were resolved from dailyIds when the report was filed */}
+                    <dl className={styles.reportParties}>
+                      <dt>Reporter</dt>
+                      <dd>
+                        {formatDailyId(report.reporterDailyId)} · <code>{report.reporterId}</code>
+                      </dd>
+                      <dt>Reported</dt>
+                      <dd>
+                        {formatDailyId(report.reportedDailyId)} · <code>{report.reportedUserId}</code>
+                      </dd>
+                    </dl>
+                    {report.details && <p className={styles.messageText}>&ldquo;{report.details}&rdquo;</p>}
+                    {report.messages.length > 0 && (
+                      <ol className={styles.reportContext}>
+                        {report.messages.map((message) => (
+                          <li
+                            key={`${message.timestamp}-${message.senderId}`}
+                            className={message.senderId === report.reportedDailyId ? styles.reportedMessage : undefined}
+                          >
+                            <strong>{formatDailyId(message.senderId)}:</strong> {message.text}
+                          </li>
+                        ))}
+                      </ol>
+                    )}
+                  </div>
+
+                  <div className={styles.reportControls}>
+                    <input
+                      className={styles.grantInput}
+                      value={reportNotes[report.reportId] ?? ''}
+                      onChange={(event) =>
+                        setReportNotes(prev => ({ ...prev, [report.reportId]: event.target.value }))
+                      }
+                      placeholder="Note for the warning / ban reason (optional)"
+                      aria-label="Moderation note"
+                      maxLength={300}
+                    />
+                    <label className={styles.reportBanDate}>
+                      Ban until
+                      <input
+                        className={styles.grantInput}
+                        type="date"
+                        value={banUntilDates[report.reportId] ?? defaultBanUntil}
+                        min={new Date().toLocaleDateString('en-CA')}
+                        onChange={(event) =>
+                          setBanUntilDates(prev => ({ ...prev, [report.reportId]: event.target.value }))
+                        }
+                      />
+                    </label>
+                    <label className={styles.reportBanDate}>
+                      Scope
+                      <select
+                        className={styles.grantInput}
+                        value={banScopes[report.reportId] ?? 'full'}
+                        onChange={(event) =>
+                          setBanScopes(prev => ({ ...prev, [report.reportId]: event.target.value as BanScope }))
+                        }
+                      >
+                        {(Object.keys(BAN_SCOPES) as BanScope[]).map((scope) => (
+                          <option key={scope} value={scope}>
+                            {BAN_SCOPES[scope]}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  </div>
+
+                  <div className={styles.storyActions}>
+                    <button
+                      className={`${styles.actionButton} ${styles.warnButton}`}
+                      onClick={() => handleReportAction(report, 'warn')}
+                      disabled={actionLoading === report.reportId}
+                    >
+                      {actionLoading === report.reportId ? '...' : '⚠️ Warn'}
+                    </button>
+                    <button
+                      className={`${styles.actionButton} ${styles.rejectButton}`}
+                      onClick={() => handleReportAction(report, 'ban')}
+                      disabled={actionLoading === report.reportId}
+                    >
+                      {actionLoading === report.reportId ? '...' : '⛔ Ban'}
+                    </button>
+                    <button
+                      className={`${styles.actionButton} ${styles.dismissButton}`}
+                      onClick={() => handleReportAction(report, 'dismiss')}
+                      disabled={actionLoading === report.reportId}
+                    >
+                      {actionLoading === report.reportId ? '...' : '🗑️ Dismiss'}
+                    </button>
+                  </div>
                 </div>
-              </div>
-            ))}
-          </div>
-        )}
-      </main>
+              ))}
+            </div>
+          )}
+        </section>
+      )}
     </div>
   );
 }
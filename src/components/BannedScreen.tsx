@@ -0,0 +1,58 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { getBanScope } from '@/lib/bans';
+import { BAN_SCOPES } from '@/types/moderation';
+import type { UserBan } from '@/types/moderation';
+import styles from './ChatContainer.module.css';
+
+interface BannedScreenProps {
+  ban: UserBan;
+  onSignOut?: () => void;
+}
+
+/**
+ * Shown instead of the app (full bans) or a chat (chat bans) while a suspension is active
+ */
+export default function BannedScreen({ ban, onSignOut }: BannedScreenProps) {
+  const router = useRouter();
+  const scope = getBanScope(ban);
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.unavailableCard}>
+        <div className={styles.unavailableIcon}>⛔</div>
+        <h2>{scope === 'full' ? 'Your account is suspended' : 'Chatting is suspended for your account'}</h2>
+        <p>
+          A moderator restricted your account after a report. The restriction lifts automatically on{' '}
+          <strong>{new Date(ban.expiresAt).toLocaleString()}</strong>.
+        </p>
+        <div className={styles.unavailableTips}>
+          <div>
+            <span>📋</span>
+            <p>Reason: {ban.reason}</p>
+          </div>
+          <div>
+            <span>🔒</span>
+            <p>Restriction: {BAN_SCOPES[scope]}</p>
+          </div>
+        </div>
+        <div className={styles.unavailableActions}>
+          {scope !== 'full' && (
+            <button className={styles.primaryAction} onClick={() => router.push('/')}>
+              Back to Dashboard
+            </button>
+          )}
+          {onSignOut && (
+            <button
+              className={scope === 'full' ? styles.primaryAction : styles.secondaryAction}
+              onClick={onSignOut}
+            >
+              Sign Out
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
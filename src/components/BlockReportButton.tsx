@@ -0,0 +1,126 @@
+'use client';
+
+import { useState } from 'react';
+import { blockUser } from '@/lib/moderationService';
+import { REPORT_REASONS } from '@/types/moderation';
+import type { ReportReason } from '@/types/moderation';
+import { useNotifications } from '@/components/ui/NotificationProvider';
+import styles from './BlockReportButton.module.css';
+
+interface BlockReportButtonProps {
+  chatId: string | null;
+  myDailyId: string | null;
+  otherDailyId: string;
+  onBlocked?: () => void;
+}
+
+export default function BlockReportButton({
+  chatId,
+  myDailyId,
+  otherDailyId,
+  onBlocked
+}: BlockReportButtonProps) {
+  const { notify } = useNotifications();
+  const [open, setOpen] = useState(false);
+  const [reportEnabled, setReportEnabled] = useState(false);
+  const [reason, setReason] = useState<ReportReason>('harassment');
+  const [details, setDetails] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    if (!chatId || !myDailyId) return;
+
+    setSubmitting(true);
+    const result = await blockUser(
+      chatId,
+      myDailyId,
+      otherDailyId,
+      reportEnabled ? { reason, details: details.trim() || undefined } : undefined
+    );
+    setSubmitting(false);
+
+    notify({
+      tone: result.success ? 'success' : 'error',
+      title: result.success ? 'User blocked' : 'Could not block',
+      message: result.message,
+    });
+
+    if (result.success) {
+      setOpen(false);
+      onBlocked?.();
+    }
+  };
+
+  return (
+    <>
+      <button
+        className={styles.blockButton}
+        onClick={() => setOpen(true)}
+        disabled={!chatId || !myDailyId}
+        title="Block or report"
+        aria-label="Block or report"
+      >
+        <span className={styles.icon}>🚫</span>
+      </button>
+
+      {open && (
+        <div className={styles.overlay} role="dialog" aria-modal="true" aria-labelledby="block-report-title">
+          <div className={styles.modal}>
+            <h2 id="block-report-title">Block this person?</h2>
+            <p className={styles.description}>
+              They won’t be able to message you for the rest of the day, and the block follows them to their
+              future Daily IDs. They won’t be told.
+            </p>
+
+            <label className={styles.checkboxRow}>
+              <input
+                type="checkbox"
+                checked={reportEnabled}
+                onChange={(event) => setReportEnabled(event.target.checked)}
+                disabled={submitting}
+              />
+              Also report this conversation to the GhostMate team
+            </label>
+
+            {reportEnabled && (
+              <div className={styles.reportFields}>
+                <select
+                  className={styles.field}
+                  value={reason}
+                  onChange={(event) => setReason(event.target.value as ReportReason)}
+                  disabled={submitting}
+                  aria-label="Report reason"
+                >
+                  {(Object.keys(REPORT_REASONS) as ReportReason[]).map((key) => (
+                    <option key={key} value={key}>
+                      {REPORT_REASONS[key]}
+                    </option>
+                  ))}
+                </select>
+                <textarea
+                  className={styles.field}
+                  value={details}
+                  onChange={(event) => setDetails(event.target.value)}
+                  placeholder="Anything else we should know? (optional)"
+                  maxLength={500}
+                  rows={3}
+                  disabled={submitting}
+                />
+                <p className={styles.hint}>Your recent messages with this person are attached to the report.</p>
+              </div>
+            )}
+
+            <div className={styles.actions}>
+              <button className={styles.cancelButton} onClick={() => setOpen(false)} disabled={submitting}>
+                Cancel
+              </button>
+              <button className={styles.confirmButton} onClick={handleSubmit} disabled={submitting}>
+                {submitting ? 'Blocking…' : reportEnabled ? 'Block & Report' : 'Block'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
 import { useDailyId } from '@/hooks/useDailyId';
@@ -8,10 +8,15 @@ import { useChat } from '@/hooks/useChat';
 import { useHighlights } from '@/hooks/useHighlights';
 import { useTimeUntilReset } from '@/hooks/useTimeUntilReset';
 import { getUserIdFromDailyId } from '@/lib/dailyIdService';
-import { generateChatId } from '@/lib/chatUtils';
+import { createMessageReply, generateChatId } from '@/lib/chatUtils';
 import ChatWindow from './ChatWindow';
 import ChatInput from './ChatInput';
 import FavoriteButton from './FavoriteButton';
+import BlockReportButton from './BlockReportButton';
+import BannedScreen from './BannedScreen';
+import { useBlockedUsers } from '@/hooks/useBlockedUsers';
+import { useBan } from '@/hooks/useBan';
+import { banRestricts } from '@/lib/bans';
 import styles from './ChatContainer.module.css';
 import {
   ADMIN_SUPPORT_DISPLAY_NAME,
@@ -40,20 +45,45 @@ export default function ChatContainer({ otherDailyId }: ChatContainerProps) {
   }, [timeUntilReset, router]);
   const { 
     messages, 
+    hasOlderMessages,
+    loadingOlder,
+    loadOlderMessages,
     loading: chatLoading, 
     error, 
     sendMessage, 
-    sending 
+    sending,
+    pendingMessages,
+    retryMessage,
+    replyingTo,
+    setReplyingTo,
+    loadUntilMessage,
+    toggleReaction,
+    editMessage,
+    unsendMessage,
+    otherTyping,
+    otherSeenUpTo,
+    notifyTyping
   } = useChat({
     myDailyId: dailyId || '',
     otherDailyId
   });
+
+  // Stable across re-renders (the reset countdown ticks every second), so ChatInput only refocuses on a new reply
+  const replyPreview = useMemo(
+    () => replyingTo ? {
+      author: replyingTo.senderId === dailyId ? 'yourself' : 'them',
+      excerpt: createMessageReply(replyingTo).excerpt
+    } : null,
+    [replyingTo, dailyId]
+  );
   
   // State for other user's Firebase UID (needed for highlights)
   const [otherUserId, setOtherUserId] = useState<string | null>(null);
   const [otherUserIdLoading, setOtherUserIdLoading] = useState<boolean>(true);
   const [otherUserIdError, setOtherUserIdError] = useState<string | null>(null);
   const [selfChatBlocked, setSelfChatBlocked] = useState(false);
+  const blockedUserIds = useBlockedUsers(user?.uid || null);
+  const { ban } = useBan(user?.uid || null);
   
   // Generate chat ID
   const chatId = dailyId ? generateChatId(dailyId, otherDailyId) : null;
@@ -168,6 +198,31 @@ export default function ChatContainer({ otherDailyId }: ChatContainerProps) {
     );
   }
 
+  // Suspended state - chat and full bans (support chats stay open for appeals)
+  if (ban && !isSupportChat && banRestricts(ban, 'chat')) {
+    return <BannedScreen ban={ban} />;
+  }
+
+  // Blocked state - the current user blocked this person (today or on a previous day)
+  if (otherUserId && blockedUserIds.has(otherUserId)) {
+    return (
+      <div className={styles.container}>
+        <div className={styles.unavailableCard}>
+          <div className={styles.unavailableIcon}>🚫</div>
+          <h2>You blocked this person</h2>
+          <p>
+            Messages between you and <strong>{otherDailyId}</strong> are turned off. Blocks follow them to future Daily IDs, so they won’t be able to reach you again.
+          </p>
+          <div className={styles.unavailableActions}>
+            <button className={styles.primaryAction} onClick={() => router.push('/')}>
+              Back to Dashboard
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   // Error state - other user's ID doesn't exist
   if (otherUserIdError) {
     return (
@@ -273,11 +328,19 @@ export default function ChatContainer({ otherDailyId }: ChatContainerProps) {
         </div>
         <div className={`${styles.favoriteSection} ${styles.headerActions}`}>
           {!isSupportChat && (
-            <FavoriteButton
-              userId={user?.uid || null}
-              userDailyId={dailyId}
-              targetDailyId={otherDailyId}
-            />
+            <>
+              <FavoriteButton
+                userId={user?.uid || null}
+                userDailyId={dailyId}
+                targetDailyId={otherDailyId}
+              />
+              <BlockReportButton
+                chatId={chatId}
+                myDailyId={dailyId}
+                otherDailyId={otherDailyId}
+                onBlocked={() => router.push('/')}
+              />
+            </>
           )}
         </div>
       </header>
@@ -305,11 +368,26 @@ export default function ChatContainer({ otherDailyId }: ChatContainerProps) {
         chatId={!isSupportChat ? (chatId || undefined) : undefined}
         highlightStatuses={!isSupportChat ? highlightStatuses : undefined}
         onToggleHighlight={!isSupportChat ? toggleHighlight : undefined}
+        otherTyping={otherTyping}
+        seenUpTo={otherSeenUpTo}
+        hasOlderMessages={hasOlderMessages}
+        loadingOlder={loadingOlder}
+        onLoadOlder={loadOlderMessages}
+        pendingMessages={pendingMessages}
+        onRetryMessage={retryMessage}
+        onReply={setReplyingTo}
+        onLoadUntilMessage={loadUntilMessage}
+        onToggleReaction={toggleReaction}
+        onEditMessage={editMessage}
+        onUnsendMessage={unsendMessage}
       />
 
       {/* Chat Input */}
       <ChatInput 
         onSend={sendMessage}
+        onTyping={notifyTyping}
+        replyingTo={replyPreview}
+        onCancelReply={() => setReplyingTo(null)}
         disabled={sending}
         placeholder={isSupportChat ? 'Ask GhostMate Support anything...' : 'Type a message...'}
       />
@@ -1,39 +1,57 @@
 'use client';
 
-import { useState, FormEvent, KeyboardEvent, useRef, useEffect } from 'react';
+import { useState, FormEvent, KeyboardEvent, useRef, useEffect, useCallback } from 'react';
 import styles from './ChatInput.module.css';
 
+interface ChatInputReply {
+  author: string; // "yourself" or "them"
+  excerpt: string;
+}
+
 interface ChatInputProps {
   onSend: (text: string) => Promise<void>;
+  onTyping?: () => void;
+  replyingTo?: ChatInputReply | null; // Message the next send will quote
+  onCancelReply?: () => void;
   disabled?: boolean;
   placeholder?: string;
 }
 
 export default function ChatInput({ 
   onSend, 
+  onTyping,
+  replyingTo = null,
+  onCancelReply,
   disabled = false,
   placeholder = "Type a message..." 
 }: ChatInputProps) {
   const [text, setText] = useState('');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
-  const refocusTextarea = () => {
+  const refocusTextarea = useCallback(() => {
     const textarea = textareaRef.current;
     if (textarea) {
       textarea.focus();
       const length = textarea.value.length;
       textarea.setSelectionRange(length, length);
     }
-  };
+  }, []);
 
-  const scheduleRefocus = () => {
+  const scheduleRefocus = useCallback(() => {
     requestAnimationFrame(refocusTextarea);
-  };
+  }, [refocusTextarea]);
 
   useEffect(() => {
     scheduleRefocus();
   }, []);
 
+  // Picking a message to reply to puts the cursor back in the box
+  useEffect(() => {
+    if (replyingTo) {
+      scheduleRefocus();
+    }
+  }, [replyingTo, scheduleRefocus]);
+
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     
@@ -55,6 +73,11 @@ export default function ChatInput({
   };
 
   const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Escape' && replyingTo) {
+      onCancelReply?.();
+      return;
+    }
+
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSubmit(e as any);
@@ -71,9 +94,30 @@ export default function ChatInput({
   return (
     <form className={styles.chatInput} onSubmit={handleSubmit} onClick={handleContainerClick}>
       <div className={styles.inputWrapper}>
+        {replyingTo && (
+          <div className={styles.replyBar}>
+            <div className={styles.replyBarText}>
+              <span>Replying to {replyingTo.author}</span>
+              <p>{replyingTo.excerpt}</p>
+            </div>
+            <button
+              type="button"
+              className={styles.replyBarCancel}
+              onClick={onCancelReply}
+              aria-label="Cancel reply"
+            >
+              ✕
+            </button>
+          </div>
+        )}
         <textarea
           value={text}
-          onChange={(e) => setText(e.target.value)}
+          onChange={(e) => {
+            setText(e.target.value);
+            if (e.target.value.trim()) {
+              onTyping?.();
+            }
+          }}
           onKeyDown={handleKeyDown}
           placeholder={placeholder}
           disabled={disabled}
@@ -1,9 +1,13 @@
 'use client';
 
-import { useEffect, useRef } from 'react';
-import { Message } from '@/types/chat';
+import { Fragment, memo, useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import type { KeyboardEvent, TouchEvent, UIEvent } from 'react';
+import { Message, MessageReply, OutboxMessage, ReactionEmoji } from '@/types/chat';
+import { MESSAGE_EDIT_WINDOW_MS, REACTION_EMOJIS } from '@/config/messaging';
+import { isValidMessage, isWithinEditWindow } from '@/lib/chatUtils';
 import type { MessageHighlightStatus } from '@/types/highlights';
 import HighlightButton from './HighlightButton';
+import { useNotifications } from './ui/NotificationProvider';
 import styles from './ChatWindow.module.css';
 
 interface ChatWindowProps {
@@ -15,8 +19,384 @@ interface ChatWindowProps {
   chatId?: string;              // Chat ID for highlights
   highlightStatuses?: Map<string, MessageHighlightStatus>;  // Highlight status per message
   onToggleHighlight?: (messageId: string, message: Message) => Promise<void>;  // Highlight toggle handler
+  otherTyping?: boolean;        // Other participant is typing
+  seenUpTo?: number;            // Other participant has seen messages up to this timestamp
+  hasOlderMessages?: boolean;   // More messages exist above the loaded ones
+  loadingOlder?: boolean;
+  onLoadOlder?: () => void;     // Called when the user scrolls near the top
+  pendingMessages?: OutboxMessage[];  // My messages still in the outbox
+  onRetryMessage?: (clientMessageId: string) => void;
+  onReply?: (message: Message) => void;  // Start a reply to a message
+  onLoadUntilMessage?: (messageId: string) => Promise<boolean>;  // Page back to a quoted message
+  onToggleReaction?: (message: Message, emoji: ReactionEmoji) => void;
+  onEditMessage?: (message: Message, text: string) => Promise<boolean>;  // Own messages within the edit window
+  onUnsendMessage?: (message: Message) => Promise<boolean>;
 }
 
+// Distance from the top (px) at which older messages start loading
+const LOAD_OLDER_THRESHOLD = 80;
+
+// Touch gestures that start a reply: hold this long, or swipe this far sideways
+const LONG_PRESS_MS = 500;
+const SWIPE_REPLY_PX = 60;
+
+// How long a message stays highlighted after jumping to it
+const JUMP_FLASH_MS = 1600;
+
+function getRelativeTime(timestamp: number): string {
+  const now = Date.now();
+  const diff = Math.max(0, now - timestamp);
+
+  const minutes = Math.floor(diff / (1000 * 60));
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'} ago`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} hour${hours === 1 ? '' : 's'} ago`;
+
+  const days = Math.floor(hours / 24);
+  if (days < 7) return `${days} day${days === 1 ? '' : 's'} ago`;
+
+  const weeks = Math.floor(days / 7);
+  if (weeks < 4) return `${weeks} week${weeks === 1 ? '' : 's'} ago`;
+
+  const months = Math.floor(days / 30);
+  if (months < 12) return `${months} month${months === 1 ? '' : 's'} ago`;
+
+  const years = Math.floor(days / 365);
+  return `${years} year${years === 1 ? '' : 's'} ago`;
+}
+
+interface ReplyQuoteProps {
+  reply: MessageReply;
+  myDailyId: string;
+  onJump?: (messageId: string) => void;
+}
+
+/**
+ * Quoted message shown inside a reply bubble; tapping it jumps to the original
+ */
+function ReplyQuote({ reply, myDailyId, onJump }: ReplyQuoteProps) {
+  return (
+    <button
+      type="button"
+      className={styles.replyQuote}
+      onClick={() => onJump?.(reply.messageId)}
+      disabled={!onJump}
+    >
+      <span className={styles.replyQuoteAuthor}>{reply.senderId === myDailyId ? 'You' : 'Them'}</span>
+      <span className={styles.replyQuoteText}>{reply.excerpt || 'Message unsent'}</span>
+    </button>
+  );
+}
+
+interface MessageRowProps {
+  message: Message;
+  myDailyId: string;
+  isMyMessage: boolean;
+  showSeen: boolean;
+  isFlashing: boolean;
+  highlightStatus?: MessageHighlightStatus;
+  onToggleHighlight?: (messageId: string, message: Message) => Promise<void>;
+  onReply?: (message: Message) => void;
+  onJumpTo?: (messageId: string) => void;
+  onToggleReaction?: (message: Message, emoji: ReactionEmoji) => void;
+  onEditMessage?: (message: Message, text: string) => Promise<boolean>;
+  onUnsendMessage?: (message: Message) => Promise<boolean>;
+}
+
+/**
+ * Count reactions per emoji, in palette order
+ */
+function summarizeReactions(
+  reactions: Message['reactions'],
+  myDailyId: string
+): Array<{ emoji: ReactionEmoji; count: number; mine: boolean }> {
+  const entries = Object.entries(reactions ?? {});
+  return REACTION_EMOJIS
+    .map((emoji) => ({
+      emoji,
+      count: entries.filter(([, reaction]) => reaction === emoji).length,
+      mine: reactions?.[myDailyId] === emoji
+    }))
+    .filter((summary) => summary.count > 0);
+}
+
+/**
+ * One message; memoized so a new message only renders its own row
+ */
+const MessageRow = memo(function MessageRow({
+  message,
+  myDailyId,
+  isMyMessage,
+  showSeen,
+  isFlashing,
+  highlightStatus,
+  onToggleHighlight,
+  onReply,
+  onJumpTo,
+  onToggleReaction,
+  onEditMessage,
+  onUnsendMessage
+}: MessageRowProps) {
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const [canChange, setCanChange] = useState(() => isMyMessage && !message.unsentAt && isWithinEditWindow(message));
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [saving, setSaving] = useState(false);
+  const pressTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const touchStartXRef = useRef<number | null>(null);
+
+  const cancelPress = () => {
+    if (pressTimerRef.current) {
+      clearTimeout(pressTimerRef.current);
+      pressTimerRef.current = null;
+    }
+  };
+
+  const triggerReply = () => {
+    cancelPress();
+    touchStartXRef.current = null;
+    onReply?.(message);
+  };
+
+  // Long-press or swipe sideways to reply on touch screens
+  const handleTouchStart = (event: TouchEvent<HTMLDivElement>) => {
+    if (!onReply) return;
+    touchStartXRef.current = event.touches[0].clientX;
+    pressTimerRef.current = setTimeout(triggerReply, LONG_PRESS_MS);
+  };
+
+  const handleTouchMove = (event: TouchEvent<HTMLDivElement>) => {
+    if (touchStartXRef.current === null) return;
+    const distance = Math.abs(event.touches[0].clientX - touchStartXRef.current);
+    if (distance >= SWIPE_REPLY_PX) {
+      triggerReply();
+    } else if (distance > 10) {
+      cancelPress(); // Scrolling or swiping, not holding
+    }
+  };
+
+  const handleTouchEnd = () => {
+    cancelPress();
+    touchStartXRef.current = null;
+  };
+
+  // Hide edit/unsend once the grace window closes
+  useEffect(() => {
+    if (!canChange) return;
+    const timer = setTimeout(
+      () => setCanChange(false),
+      Math.max(0, message.timestamp + MESSAGE_EDIT_WINDOW_MS - Date.now())
+    );
+    return () => clearTimeout(timer);
+  }, [canChange, message.timestamp]);
+
+  const react = (emoji: ReactionEmoji) => {
+    setPickerOpen(false);
+    onToggleReaction?.(message, emoji);
+  };
+
+  const startEditing = () => {
+    setDraft(message.text);
+    setEditing(true);
+  };
+
+  const saveEdit = async () => {
+    const text = draft.trim();
+    if (!onEditMessage || !isValidMessage(text) || saving) return;
+
+    if (text === message.text) {
+      setEditing(false);
+      return;
+    }
+
+    setSaving(true);
+    const saved = await onEditMessage(message, text);
+    setSaving(false);
+    if (saved) {
+      setEditing(false);
+    }
+  };
+
+  const handleEditKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      saveEdit();
+    } else if (event.key === 'Escape') {
+      setEditing(false);
+    }
+  };
+
+  const unsend = () => {
+    if (onUnsendMessage && window.confirm('Unsend this message? It will be removed for both of you.')) {
+      onUnsendMessage(message);
+    }
+  };
+
+  if (message.isSystemMessage) {
+    return (
+      <div className={styles.systemMessageWrapper}>
+        <div className={styles.systemBubble}>
+          <p>{message.text}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (message.unsentAt) {
+    return (
+      <div
+        id={`message-${message.id}`}
+        className={`${styles.messageWrapper} ${isMyMessage ? styles.myMessage : styles.theirMessage} ${isFlashing ? styles.jumpTarget : ''}`}
+        title={getRelativeTime(message.timestamp)}
+      >
+        <div className={`${styles.bubble} ${styles.unsentBubble}`}>
+          <p>{isMyMessage ? 'You unsent a message' : 'This message was unsent'}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const reactionSummary = summarizeReactions(message.reactions, myDailyId);
+  const showChangeActions = canChange && !editing && (onEditMessage || onUnsendMessage);
+
+  return (
+    <>
+      <div
+        id={`message-${message.id}`}
+        className={`${styles.messageWrapper} ${isMyMessage ? styles.myMessage : styles.theirMessage} ${isFlashing ? styles.jumpTarget : ''}`}
+        title={getRelativeTime(message.timestamp)}
+        onTouchStart={handleTouchStart}
+        onTouchMove={handleTouchMove}
+        onTouchEnd={handleTouchEnd}
+        onTouchCancel={handleTouchEnd}
+      >
+        <div className={styles.timestamp}>
+          {getRelativeTime(message.timestamp)}
+        </div>
+        <div className={styles.bubble}>
+          {message.replyTo && (
+            <ReplyQuote reply={message.replyTo} myDailyId={myDailyId} onJump={onJumpTo} />
+          )}
+          {editing ? (
+            <div className={styles.editForm}>
+              <textarea
+                className={styles.editInput}
+                value={draft}
+                onChange={(event) => setDraft(event.target.value)}
+                onKeyDown={handleEditKeyDown}
+                maxLength={1000}
+                rows={2}
+                autoFocus
+                disabled={saving}
+                aria-label="Edit message"
+              />
+              <div className={styles.editFormActions}>
+                <button type="button" onClick={() => setEditing(false)} disabled={saving}>
+                  Cancel
+                </button>
+                <button type="button" onClick={saveEdit} disabled={saving || !isValidMessage(draft.trim())}>
+                  {saving ? 'Saving…' : 'Save'}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <p>
+              {message.text}
+              {message.editedAt && <span className={styles.editedMarker}> (edited)</span>}
+            </p>
+          )}
+        </div>
+        {onReply && (
+          <button
+            type="button"
+            className={styles.replyButton}
+            onClick={() => onReply(message)}
+            aria-label="Reply to this message"
+            title="Reply"
+          >
+            ↩
+          </button>
+        )}
+        {onToggleReaction && (
+          <button
+            type="button"
+            className={styles.reactButton}
+            onClick={() => setPickerOpen((open) => !open)}
+            aria-label="React to this message"
+            aria-expanded={pickerOpen}
+            title="React"
+          >
+            ☺
+          </button>
+        )}
+        {onToggleHighlight && (
+          <div className={styles.highlightButtonContainer}>
+            <HighlightButton
+              messageId={message.id}
+              status={highlightStatus || {
+                messageId: message.id,
+                highlightedByMe: false,
+                highlightedByOther: false,
+                isMutual: false,
+                queuedForStory: false,
+                isLocked: false,
+                lockExpiresAt: undefined
+              }}
+              onToggle={() => onToggleHighlight(message.id, message)}
+            />
+          </div>
+        )}
+      </div>
+      {pickerOpen && (
+        <div className={`${styles.reactionPicker} ${isMyMessage ? styles.alignEnd : styles.alignStart}`} role="menu">
+          {REACTION_EMOJIS.map((emoji) => (
+            <button
+              key={emoji}
+              type="button"
+              role="menuitem"
+              className={message.reactions?.[myDailyId] === emoji ? styles.reactionPicked : undefined}
+              onClick={() => react(emoji)}
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      )}
+      {reactionSummary.length > 0 && (
+        <div className={`${styles.reactions} ${isMyMessage ? styles.alignEnd : styles.alignStart}`}>
+          {reactionSummary.map(({ emoji, count, mine }) => (
+            <button
+              key={emoji}
+              type="button"
+              className={`${styles.reactionChip} ${mine ? styles.reactionMine : ''}`}
+              onClick={() => react(emoji)}
+              disabled={!onToggleReaction}
+              aria-label={mine ? `Remove your ${emoji} reaction` : `React with ${emoji}`}
+            >
+              {emoji}{count > 1 && <span>{count}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+      {showChangeActions && (
+        <div className={styles.messageActions}>
+          {onEditMessage && (
+            <button type="button" onClick={startEditing}>Edit</button>
+          )}
+          {onUnsendMessage && (
+            <button type="button" onClick={unsend}>Unsend</button>
+          )}
+        </div>
+      )}
+      {showSeen && (
+        <div className={styles.seenReceipt}>Seen</div>
+      )}
+    </>
+  );
+});
+
 export default function ChatWindow({ 
   messages, 
   myDailyId, 
@@ -25,109 +405,172 @@ export default function ChatWindow({
   otherUserId,
   chatId,
   highlightStatuses,
-  onToggleHighlight
+  onToggleHighlight,
+  otherTyping = false,
+  seenUpTo = 0,
+  hasOlderMessages = false,
+  loadingOlder = false,
+  onLoadOlder,
+  pendingMessages = [],
+  onRetryMessage,
+  onReply,
+  onLoadUntilMessage,
+  onToggleReaction,
+  onEditMessage,
+  onUnsendMessage
 }: ChatWindowProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const firstMessageIdRef = useRef<string | null>(null);
+  const scrollHeightBeforeLoadRef = useRef<number | null>(null);
+  const [flashMessageId, setFlashMessageId] = useState<string | null>(null);
+  const { notify } = useNotifications();
   
   // Check if highlighting is enabled
   const highlightingEnabled = Boolean(userId && otherUserId && chatId && onToggleHighlight);
 
-  const getRelativeTime = (timestamp: number) => {
-    const now = Date.now();
-    const diff = Math.max(0, now - timestamp);
+  const firstMessageId = messages.length > 0 ? messages[0].id : null;
+  const lastMessageId = pendingMessages.length > 0
+    ? pendingMessages[pendingMessages.length - 1].clientMessageId
+    : messages.length > 0 ? messages[messages.length - 1].id : null;
 
-    const minutes = Math.floor(diff / (1000 * 60));
-    if (minutes < 1) return 'Just now';
-    if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'} ago`;
+  // Keep the view anchored when an older page is prepended
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    const previousScrollHeight = scrollHeightBeforeLoadRef.current;
 
-    const hours = Math.floor(minutes / 60);
-    if (hours < 24) return `${hours} hour${hours === 1 ? '' : 's'} ago`;
+    if (container && previousScrollHeight !== null && firstMessageId !== firstMessageIdRef.current) {
+      container.scrollTo({ top: container.scrollHeight - previousScrollHeight, behavior: 'instant' });
+      scrollHeightBeforeLoadRef.current = null;
+    }
+    firstMessageIdRef.current = firstMessageId;
+  }, [firstMessageId]);
 
-    const days = Math.floor(hours / 24);
-    if (days < 7) return `${days} day${days === 1 ? '' : 's'} ago`;
+  // Auto-scroll to bottom when a new message arrives or the typing indicator appears
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [lastMessageId, otherTyping]);
 
-    const weeks = Math.floor(days / 7);
-    if (weeks < 4) return `${weeks} week${weeks === 1 ? '' : 's'} ago`;
+  useEffect(() => {
+    if (!flashMessageId) return;
+
+    const timeout = setTimeout(() => setFlashMessageId(null), JUMP_FLASH_MS);
+    return () => clearTimeout(timeout);
+  }, [flashMessageId]);
+
+  const jumpToMessage = useCallback(async (messageId: string) => {
+    if (!document.getElementById(`message-${messageId}`)) {
+      // Older than the loaded pages: page back until it shows up
+      const found = onLoadUntilMessage ? await onLoadUntilMessage(messageId) : false;
+      if (!found) {
+        notify({
+          tone: 'info',
+          title: 'Message unavailable',
+          message: 'That message is no longer in today’s history.',
+        });
+        return;
+      }
+    }
 
-    const months = Math.floor(days / 30);
-    if (months < 12) return `${months} month${months === 1 ? '' : 's'} ago`;
+    // A freshly loaded page may take a frame or two to render
+    const scrollToRendered = (framesLeft: number) => {
+      const element = document.getElementById(`message-${messageId}`);
+      if (element) {
+        element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        setFlashMessageId(messageId);
+      } else if (framesLeft > 0) {
+        requestAnimationFrame(() => scrollToRendered(framesLeft - 1));
+      }
+    };
+    scrollToRendered(10);
+  }, [onLoadUntilMessage, notify]);
 
-    const years = Math.floor(days / 365);
-    return `${years} year${years === 1 ? '' : 's'} ago`;
+  const handleScroll = (event: UIEvent<HTMLDivElement>) => {
+    const container = event.currentTarget;
+    if (container.scrollTop > LOAD_OLDER_THRESHOLD || !hasOlderMessages || loadingOlder || !onLoadOlder) {
+      return;
+    }
+
+    scrollHeightBeforeLoadRef.current = container.scrollHeight;
+    onLoadOlder();
   };
 
-  // Auto-scroll to bottom when new messages arrive
-  useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  // "Seen" is shown once, under the last message I sent
+  const lastOutgoingMessage = [...messages]
+    .reverse()
+    .find((message) => message.senderId === myDailyId && !message.isSystemMessage);
+  const seenMessageId = lastOutgoingMessage && lastOutgoingMessage.timestamp <= seenUpTo
+    ? lastOutgoingMessage.id
+    : null;
 
-  if (messages.length === 0) {
+  if (messages.length === 0 && pendingMessages.length === 0) {
     return (
       <div className={styles.emptyState}>
         <div className={styles.ghostIcon}>
           <img src="/favicon.svg" alt="No messages" />
         </div>
         <p>No messages yet</p>
-        <span>Start the conversation!</span>
+        <span>{otherTyping ? 'typing…' : 'Start the conversation!'}</span>
       </div>
     );
   }
 
   return (
     <div className={styles.chatWindow}>
-      <div className={styles.messagesContainer}>
-        {messages.map((message) => {
-          const isMyMessage = message.senderId === myDailyId;
-          const isSystem = message.isSystemMessage;
-
-          if (isSystem) {
-            return (
-              <div key={message.id} className={styles.systemMessageWrapper}>
-                <div className={styles.systemBubble}>
-                  <p>{message.text}</p>
-                </div>
-              </div>
-            );
-          }
-
-          // Get highlight status for this message
-          const highlightStatus = highlightStatuses?.get(message.id) || {
-            messageId: message.id,
-            highlightedByMe: false,
-            highlightedByOther: false,
-            isMutual: false,
-            queuedForStory: false,
-            isLocked: false,
-            lockExpiresAt: undefined
-          };
-
-          return (
-            <div
-              key={message.id}
-              className={`${styles.messageWrapper} ${isMyMessage ? styles.myMessage : styles.theirMessage}`}
-              title={getRelativeTime(message.timestamp)}
-            >
-              <div className={styles.timestamp}>
-                {getRelativeTime(message.timestamp)}
-              </div>
+      <div className={styles.messagesContainer} ref={containerRef} onScroll={handleScroll}>
+        {hasOlderMessages && (
+          <div className={styles.olderMessagesHint}>
+            {loadingOlder ? 'Loading earlier messages…' : 'Scroll up for earlier messages'}
+          </div>
+        )}
+        {messages.map((message) => (
+          <MessageRow
+            key={message.id}
+            message={message}
+            myDailyId={myDailyId}
+            isMyMessage={message.senderId === myDailyId}
+            showSeen={message.id === seenMessageId}
+            isFlashing={message.id === flashMessageId}
+            highlightStatus={highlightStatuses?.get(message.id)}
+            onToggleHighlight={highlightingEnabled ? onToggleHighlight : undefined}
+            onReply={onReply}
+            onJumpTo={jumpToMessage}
+            onToggleReaction={onToggleReaction}
+            onEditMessage={onEditMessage}
+            onUnsendMessage={onUnsendMessage}
+          />
+        ))}
+        {pendingMessages.map((entry) => (
+          <Fragment key={entry.clientMessageId}>
+            <div className={`${styles.messageWrapper} ${styles.myMessage} ${styles.pendingMessage}`}>
               <div className={styles.bubble}>
-                <p>{message.text}</p>
+                {entry.replyTo && (
+                  <ReplyQuote reply={entry.replyTo} myDailyId={myDailyId} onJump={jumpToMessage} />
+                )}
+                <p>{entry.text}</p>
               </div>
-              {highlightingEnabled && (
-                <div className={styles.highlightButtonContainer}>
-                  <HighlightButton
-                    messageId={message.id}
-                    status={highlightStatus}
-                    onToggle={() => onToggleHighlight!(message.id, message)}
-                  />
-                </div>
-              )}
             </div>
-          );
-        })}
+            {entry.status === 'failed' ? (
+              <button
+                type="button"
+                className={`${styles.deliveryStatus} ${styles.deliveryFailed}`}
+                onClick={() => onRetryMessage?.(entry.clientMessageId)}
+                title={entry.error}
+              >
+                Failed — tap to retry
+              </button>
+            ) : (
+              <div className={styles.deliveryStatus}>Sending…</div>
+            )}
+          </Fragment>
+        ))}
+        {otherTyping && (
+          <div className={styles.typingIndicator} aria-live="polite">
+            typing…
+          </div>
+        )}
         <div ref={messagesEndRef} />
       </div>
     </div>
   );
 }
-
@@ -4,11 +4,15 @@ import { useEffect, useState } from 'react';
 import { collection, query, where, getDocs } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 import type { Connection } from '@/types/favorites';
+import type { ChatQuotaBreakdown } from '@/types/chatQuota';
+import { formatChatQuota } from '@/lib/chatQuota';
+import { getTodayMidnight } from '@/lib/dailyId';
 import styles from './ActivitySummary.module.css';
 
 interface ActivitySummaryProps {
   chatsUsed: number;
   chatsLimit: number;
+  quota?: ChatQuotaBreakdown;
   timeUntilReset?: string;
   userId?: string;
   dailyId?: string | null;
@@ -17,6 +21,7 @@ interface ActivitySummaryProps {
 export default function ActivitySummary({ 
   chatsUsed, 
   chatsLimit, 
+  quota,
   timeUntilReset,
   userId,
   dailyId 
@@ -24,11 +29,15 @@ export default function ActivitySummary({
   const [highlightsGiven, setHighlightsGiven] = useState<number>(0);
   const [activeConnections, setActiveConnections] = useState<number>(0);
   const [currentStreak, setCurrentStreak] = useState<number>(0);
+  const [lostStreak, setLostStreak] = useState<number>(0); // Longest streak expired at today's reset
+  const [streakFreezes, setStreakFreezes] = useState<number>(0); // Across active connections
   const [loading, setLoading] = useState(true);
 
   const percentage = (chatsUsed / chatsLimit) * 100;
   const remaining = chatsLimit - chatsUsed;
   const isLimitReached = chatsUsed >= chatsLimit;
+  // e.g. "5 + 2 bonus" when the limit includes streak bonuses or admin grants
+  const quotaSource = quota && (quota.bonus > 0 || quota.granted > 0) ? formatChatQuota(quota) : null;
 
   // Fetch user stats
   useEffect(() => {
@@ -55,6 +64,19 @@ export default function ActivitySummary({
         }, 0);
 
         setActiveConnections(activeCount);
+        setStreakFreezes(connectionsSnapshot.docs.reduce((total, docSnap) => {
+          const data = docSnap.data() as Connection | undefined;
+          return data?.status === 'active' ? total + (data.freezeBalance ?? 0) : total;
+        }, 0));
+
+        const todayMidnight = getTodayMidnight().getTime();
+        const lostToday = connectionsSnapshot.docs.reduce((longest, docSnap) => {
+          const data = docSnap.data() as Connection | undefined;
+          if (data?.status !== 'expired' || !data.expiredAt || data.expiredAt < todayMidnight) return longest;
+          return Math.max(longest, data.streakCount);
+        }, 0);
+
+        setLostStreak(lostToday);
 
         // Get user's current streak
         const usersRef = collection(db, 'users');
@@ -105,6 +127,11 @@ export default function ActivitySummary({
                 {chatsUsed}<span className={styles.statTotal}>/{chatsLimit}</span>
               </div>
               <div className={styles.statLabel}>Chats Used</div>
+              {quotaSource && (
+                <div className={styles.statSource} title={`Longest active streak: ${quota?.bestStreak ?? 0} days`}>
+                  {quotaSource}
+                </div>
+              )}
             </div>
           </div>
 
@@ -114,6 +141,11 @@ export default function ActivitySummary({
             <div className={styles.statContent}>
               <div className={styles.statNumber}>{loading ? '...' : currentStreak}</div>
               <div className={styles.statLabel}>Day Streak</div>
+              {!loading && streakFreezes > 0 && (
+                <div className={styles.statSource} title="Each streak freeze covers one missed day">
+                  🧊 {streakFreezes} freeze{streakFreezes === 1 ? '' : 's'}
+                </div>
+              )}
             </div>
           </div>
 
@@ -154,6 +186,15 @@ export default function ActivitySummary({
 
         {/* Status Message */}
         <div className={styles.statusMessage}>
+          {lostStreak > 1 && (
+            <div className={`${styles.message} ${styles.warningMessage}`}>
+              <span className={styles.messageIcon}>🥀</span>
+              <div className={styles.messageContent}>
+                <strong>Streak lost</strong>
+                <span>A {lostStreak}-day streak ended at the reset. Favorite each other again to restart it.</span>
+              </div>
+            </div>
+          )}
           {isLimitReached ? (
             <div className={`${styles.message} ${styles.limitMessage}`}>
               <span className={styles.messageIcon}>🌙</span>
@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import { formatDailyId } from '@/lib/dailyId';
+import { getResetTimeLabel } from '@/lib/resetClock';
 import styles from './DailyIdCard.module.css';
 
 interface DailyIdCardProps {
@@ -145,7 +146,7 @@ https://ghostmate.online/chat/${dailyId}
       <div className={styles.cardFooter}>
         <p className={styles.footerText}>
           <span className={styles.footerIcon}>🔒</span>
-          Resets at midnight PKT • Completely anonymous
+          Resets at {getResetTimeLabel()} • Completely anonymous
         </p>
       </div>
     </div>
@@ -1,6 +1,7 @@
 'use client';
 
 import { useRouter } from 'next/navigation';
+import NotificationBell from './NotificationBell';
 import styles from './DashboardHeader.module.css';
 
 interface DashboardHeaderProps {
@@ -9,10 +10,11 @@ interface DashboardHeaderProps {
     minutes: number;
     seconds: number;
   } | null;
+  userId?: string | null;
   onSignOut: () => void;
 }
 
-export default function DashboardHeader({ timeUntilReset, onSignOut }: DashboardHeaderProps) {
+export default function DashboardHeader({ timeUntilReset, userId = null, onSignOut }: DashboardHeaderProps) {
   const router = useRouter();
   const handleBrandClick = () => {
     if (typeof window !== 'undefined' && window.location.pathname === '/') {
@@ -59,6 +61,26 @@ export default function DashboardHeader({ timeUntilReset, onSignOut }: Dashboard
 
         {/* Navigation */}
         <nav className={styles.nav}>
+          <NotificationBell userId={userId} />
+
+          <button
+            onClick={() => router.push('/inbox')}
+            className={styles.navButton}
+            aria-label="Open Inbox"
+          >
+            <span className={styles.navIcon}>💬</span>
+            <span className={styles.navText}>Inbox</span>
+          </button>
+
+          <button
+            onClick={() => router.push('/connections')}
+            className={styles.navButton}
+            aria-label="View Connections You Made"
+          >
+            <span className={styles.navIcon}>🤝</span>
+            <span className={styles.navText}>Connections</span>
+          </button>
+
           <button
             onClick={() => router.push('/stories')}
             className={styles.navButton}
@@ -0,0 +1,48 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { acknowledgeWarning, listenToActiveWarning } from '@/lib/moderationService';
+import type { UserWarning } from '@/types/moderation';
+import styles from './ModerationWarningBanner.module.css';
+
+interface ModerationWarningBannerProps {
+  userId: string | null;
+}
+
+/**
+ * Shows an admin warning on the dashboard until the user acknowledges it
+ */
+export default function ModerationWarningBanner({ userId }: ModerationWarningBannerProps) {
+  const [warning, setWarning] = useState<UserWarning | null>(null);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    return listenToActiveWarning(userId, setWarning);
+  }, [userId]);
+
+  if (!userId || !warning) {
+    return null;
+  }
+
+  const handleAcknowledge = async () => {
+    try {
+      await acknowledgeWarning(userId);
+    } catch (error) {
+      console.error('Error acknowledging warning:', error);
+    }
+  };
+
+  return (
+    <div className={styles.banner} role="alert">
+      <span className={styles.icon}>⚠️</span>
+      <div className={styles.content}>
+        <strong>A message from the GhostMate team</strong>
+        <p>{warning.message}</p>
+      </div>
+      <button className={styles.button} onClick={handleAcknowledge}>
+        Got it
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useNotificationCenter } from '@/hooks/useNotificationCenter';
+import type { AppNotification } from '@/types/notifications';
+import styles from './NotificationBell.module.css';
+
+interface NotificationBellProps {
+  userId: string | null;
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+/**
+ * Bell menu listing today's notifications
+ * Opening an entry marks it read and follows its deep link.
+ */
+export default function NotificationBell({ userId }: NotificationBellProps) {
+  const router = useRouter();
+  const { notifications, unreadCount, markRead, markAllRead } = useNotificationCenter(userId);
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close on outside click or Escape
+  useEffect(() => {
+    if (!open) return;
+
+    const handlePointerDown = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setOpen(false);
+    };
+
+    document.addEventListener('mousedown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [open]);
+
+  if (!userId) {
+    return null;
+  }
+
+  const handleOpenNotification = (notification: AppNotification) => {
+    setOpen(false);
+    if (!notification.read) {
+      markRead(notification.id);
+    }
+    router.push(notification.url);
+  };
+
+  return (
+    <div className={styles.bell} ref={menuRef}>
+      <button
+        type="button"
+        className={styles.bellButton}
+        onClick={() => setOpen((current) => !current)}
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+        aria-expanded={open}
+        aria-haspopup="true"
+      >
+        <span className={styles.bellIcon}>🔔</span>
+        {unreadCount > 0 && (
+          <span className={styles.badge}>{unreadCount > 9 ? '9+' : unreadCount}</span>
+        )}
+      </button>
+
+      {open && (
+        <div className={styles.menu} role="menu">
+          <div className={styles.menuHeader}>
+            <strong>Notifications</strong>
+            {unreadCount > 0 && (
+              <button type="button" className={styles.markAllButton} onClick={markAllRead}>
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className={styles.empty}>Nothing yet today. Notifications clear at the daily reset.</p>
+          ) : (
+            <ul className={styles.list}>
+              {notifications.map((notification) => (
+                <li key={notification.id}>
+                  <button
+                    type="button"
+                    role="menuitem"
+                    className={`${styles.item} ${notification.read ? '' : styles.unread}`}
+                    onClick={() => handleOpenNotification(notification)}
+                  >
+                    <span className={styles.itemTitle}>{notification.title}</span>
+                    <span className={styles.itemBody}>{notification.body}</span>
+                    <span className={styles.itemTime}>{formatTime(notification.createdAt)}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,9 +5,12 @@ import { useRouter } from 'next/navigation';
 import { collection, Timestamp, onSnapshot, query, where, getDocs } from 'firebase/firestore';
 import { db, database } from '@/lib/firebase';
 import { formatDailyId } from '@/lib/dailyId';
-import { getChat } from '@/lib/chatService';
+import { getResetTimeLabel } from '@/lib/resetClock';
 import { generateChatId, getOtherParticipantId } from '@/lib/chatUtils';
 import { getRandomActiveDailyId } from '@/lib/randomConnect';
+import { PRESENCE_STALE_MS } from '@/lib/presenceService';
+import type { StartChatResult } from '@/hooks/useChatLimit';
+import { useHiddenUsers } from '@/hooks/useHiddenUsers';
 import styles from './OnlineUsersList.module.css';
 import { useNotifications } from '@/components/ui/NotificationProvider';
 import {
@@ -38,13 +41,14 @@ interface OnlineUsersListProps {
     limit: number;
     remaining: number;
     isLimitReached: boolean;
-    recordChatInitiation: () => Promise<{ success: boolean; message?: string }>;
+    startChat: (myDailyId: string, targetDailyId: string) => Promise<StartChatResult>;
   };
 }
 
 export default function OnlineUsersList({ currentUserId, currentDailyId, chatLimit }: OnlineUsersListProps) {
   const router = useRouter();
   const [onlineUsers, setOnlineUsers] = useState<OnlineUser[]>([]);
+  const hiddenUserIds = useHiddenUsers(currentUserId);
   const [connectionUserIds, setConnectionUserIds] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(true);
   const [connectingTo, setConnectingTo] = useState<string | null>(null);
@@ -70,7 +74,6 @@ export default function OnlineUsersList({ currentUserId, currentDailyId, chatLim
     }
 
     const now = Date.now();
-    const STALE_THRESHOLD = 180000; // 3 minutes to tolerate background tab throttling
 
     const dailyLookup = new Map<
       string,
@@ -120,7 +123,7 @@ export default function OnlineUsersList({ currentUserId, currentDailyId, chatLim
                 ? entry.updatedAt.toDate().getTime()
                 : 0;
 
-      if (!lastSeenValue || now - lastSeenValue >= STALE_THRESHOLD) {
+      if (!lastSeenValue || now - lastSeenValue >= PRESENCE_STALE_MS) {
         return;
       }
 
@@ -330,6 +333,14 @@ export default function OnlineUsersList({ currentUserId, currentDailyId, chatLim
     };
   }, [currentDailyId, notify, computeOnlineUsers]);
 
+  const notifyStartChatFailure = (result: StartChatResult) => {
+    notify({
+      tone: result.code === 'chat-limit-reached' ? 'warning' : 'error',
+      title: result.code === 'chat-limit-reached' ? 'Chat limit reached' : 'Connection failed',
+      message: result.message || 'Unable to start a new chat right now.',
+    });
+  };
+
   const handleConnect = async (targetDailyId: string) => {
     if (!currentDailyId) return;
 
@@ -339,25 +350,12 @@ export default function OnlineUsersList({ currentUserId, currentDailyId, chatLim
     setConnectingTo(targetDailyId);
 
     try {
-      // Check if chat already exists
-      const chatId = generateChatId(currentDailyId, targetDailyId);
-      const existingChat = await getChat(chatId);
-
-      if (existingChat || isSupportChat) {
-        router.push(`/chat/${targetDailyId}`);
-        setConnectingTo(null);
-        return;
-      }
-
-      const result = await chatLimit.recordChatInitiation();
+      // The server reuses existing chats and only charges the limit for new ones
+      const result = await chatLimit.startChat(currentDailyId, targetDailyId);
       if (result.success) {
         router.push(`/chat/${targetDailyId}`);
       } else {
-        notify({
-          tone: 'warning',
-          title: 'Chat limit reached',
-          message: result.message || 'Unable to start a new chat right now.',
-        });
+        notifyStartChatFailure(result);
         setConnectingTo(null);
       }
     } catch (error) {
@@ -380,25 +378,13 @@ export default function OnlineUsersList({ currentUserId, currentDailyId, chatLim
       const result = await getRandomActiveDailyId(currentUserId, currentDailyId);
 
       if (result.success && result.dailyId) {
-        const chatId = generateChatId(currentDailyId, result.dailyId);
-        const existingChat = await getChat(chatId);
-
-        if (existingChat) {
+        const chatResult = await chatLimit.startChat(currentDailyId, result.dailyId);
+        if (chatResult.success) {
           setRandomConnecting(false);
           router.push(`/chat/${result.dailyId}`);
         } else {
-          const limitResult = await chatLimit.recordChatInitiation();
-          if (limitResult.success) {
-            setRandomConnecting(false);
-            router.push(`/chat/${result.dailyId}`);
-          } else {
-            notify({
-              tone: 'warning',
-              title: 'Chat limit reached',
-              message: limitResult.message || 'Unable to start a new chat right now.',
-            });
-            setRandomConnecting(false);
-          }
+          notifyStartChatFailure(chatResult);
+          setRandomConnecting(false);
         }
       } else {
         notify({
@@ -419,6 +405,9 @@ export default function OnlineUsersList({ currentUserId, currentDailyId, chatLim
     }
   };
 
+  // Blocks in either direction (by UID, so across daily IDs) hide users from the list
+  const visibleUsers = onlineUsers.filter((user) => !hiddenUserIds.has(user.userId));
+
   return (
     <div className={styles.container}>
       <div className={styles.header}>
@@ -436,7 +425,7 @@ export default function OnlineUsersList({ currentUserId, currentDailyId, chatLim
             <span className={styles.buttonIcon}>{randomConnecting ? '⏳' : '🎲'}</span>
           </button>
           <div className={styles.badge}>
-            {loading ? '⏳' : `${onlineUsers.length}`}
+            {loading ? '⏳' : `${visibleUsers.length}`}
           </div>
         </div>
       </div>
@@ -445,7 +434,7 @@ export default function OnlineUsersList({ currentUserId, currentDailyId, chatLim
         <div className={styles.limitWarning}>
           <span className={styles.warningIcon}>⏰</span>
           <p className={styles.warningText}>
-            Daily chat limit reached! New chats unlock at midnight PKT.
+            Daily chat limit reached! New chats unlock at {getResetTimeLabel()}.
           </p>
         </div>
       )}
@@ -465,7 +454,7 @@ export default function OnlineUsersList({ currentUserId, currentDailyId, chatLim
               <div className={styles.section}>
                 <h3 className={styles.sectionTitle}>Last Connections</h3>
                 <div className={styles.userGrid}>
-                  {onlineUsers
+                  {visibleUsers
                     .filter((user) => connectionUserIds.has(user.userId))
                     .map((user) => {
                       const unreadCount = user.unreadCount ?? 0;
@@ -504,7 +493,7 @@ export default function OnlineUsersList({ currentUserId, currentDailyId, chatLim
                       );
                     })}
                 </div>
-                {onlineUsers.filter((user) => connectionUserIds.has(user.userId)).length === 0 && (
+                {visibleUsers.filter((user) => connectionUserIds.has(user.userId)).length === 0 && (
                   <div className={styles.emptyState}>
                     <span className={styles.emptyIcon}>💫</span>
                     <p className={styles.emptyTitle}>No connections online</p>
@@ -517,7 +506,7 @@ export default function OnlineUsersList({ currentUserId, currentDailyId, chatLim
             {/* All Online Users Section */}
             <div className={styles.section}>
               <h3 className={styles.sectionTitle}>All Online Users</h3>
-              {onlineUsers.length === 0 ? (
+              {visibleUsers.length === 0 ? (
                 <div className={styles.emptyState}>
                   <span className={styles.emptyIcon}>😔</span>
                   <p className={styles.emptyTitle}>No users online</p>
@@ -525,7 +514,7 @@ export default function OnlineUsersList({ currentUserId, currentDailyId, chatLim
                 </div>
               ) : (
                 <div className={styles.userGrid}>
-                  {onlineUsers
+                  {visibleUsers
                     .filter((user) => !connectionUserIds.has(user.userId))
                     .map((user) => {
                       const unreadCount = user.unreadCount ?? 0;
@@ -565,7 +554,7 @@ export default function OnlineUsersList({ currentUserId, currentDailyId, chatLim
                     })}
                 </div>
               )}
-              {onlineUsers.length > 0 && onlineUsers.filter((user) => !connectionUserIds.has(user.userId)).length === 0 && (
+              {visibleUsers.length > 0 && visibleUsers.filter((user) => !connectionUserIds.has(user.userId)).length === 0 && (
                 <div className={styles.emptyState}>
                   <span className={styles.emptyIcon}>✨</span>
                   <p className={styles.emptyTitle}>All your connections are online!</p>
@@ -0,0 +1,50 @@
+'use client';
+
+import { usePushNotifications } from '@/hooks/usePushNotifications';
+import { useNotifications } from '@/components/ui/NotificationProvider';
+import styles from './PushNotificationsToggle.module.css';
+
+interface PushNotificationsToggleProps {
+  userId: string | null;
+}
+
+/**
+ * Opt-in for Web Push (new messages, mutual favorites, streak reminders, approved stories)
+ * Hidden when this browser or deployment cannot receive push.
+ */
+export default function PushNotificationsToggle({ userId }: PushNotificationsToggleProps) {
+  const { state, busy, enable, disable } = usePushNotifications(userId);
+  const { notify } = useNotifications();
+
+  if (!userId || state === null || state === 'unsupported') {
+    return null;
+  }
+
+  const handleToggle = async () => {
+    const result = state === 'enabled' ? await disable() : await enable();
+    notify({
+      tone: result.success ? 'success' : 'error',
+      title: 'Notifications',
+      message: result.message
+    });
+  };
+
+  return (
+    <div className={styles.toggle}>
+      <span className={styles.icon}>🔔</span>
+      <div className={styles.content}>
+        <strong>Notifications</strong>
+        <p>
+          {state === 'denied'
+            ? 'Notifications are blocked for GhostMate in your browser settings.'
+            : 'Get a ping for new messages, mutual favorites, streak reminders and approved stories. Message text is never included.'}
+        </p>
+      </div>
+      {state !== 'denied' && (
+        <button className={styles.button} onClick={handleToggle} disabled={busy}>
+          {busy ? '…' : state === 'enabled' ? 'Turn off' : 'Turn on'}
+        </button>
+      )}
+    </div>
+  );
+}
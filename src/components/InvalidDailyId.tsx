@@ -0,0 +1,43 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import styles from './ChatContainer.module.css';
+
+interface InvalidDailyIdProps {
+  rawId: string;
+}
+
+/**
+ * Shown instead of a chat when the ID in the URL fails the check digit
+ */
+export default function InvalidDailyId({ rawId }: InvalidDailyIdProps) {
+  const router = useRouter();
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.unavailableCard}>
+        <div className={styles.unavailableIcon}>🔢</div>
+        <h2>That Daily ID looks mistyped</h2>
+        <p>
+          <strong>{rawId || 'This ID'}</strong> isn’t a valid Daily ID. Every ID has 8 digits and the last one is a
+          check digit, so a single wrong or swapped digit is caught before we look anyone up.
+        </p>
+        <div className={styles.unavailableTips}>
+          <div>
+            <span>🔍</span>
+            <p>Double-check each digit with your friend, especially neighbours that may be swapped.</p>
+          </div>
+          <div>
+            <span>📋</span>
+            <p>Copying the ID from the dashboard avoids typos entirely.</p>
+          </div>
+        </div>
+        <div className={styles.unavailableActions}>
+          <button className={styles.primaryAction} onClick={() => router.push('/')}>
+            Back to Dashboard
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import { getTodayDateString } from '@/lib/dailyId';
+import { getHistoryDates } from '@/lib/streaks';
+import { STREAK_HISTORY_DAYS } from '@/config/streaks';
+import type { ConnectionHistoryDay } from '@/types/favorites';
+import styles from './StreakHeatmap.module.css';
+
+interface StreakHeatmapProps {
+  history: Record<string, ConnectionHistoryDay>;
+}
+
+const DAY_LABELS: Record<ConnectionHistoryDay, string> = {
+  both: 'You both favorited',
+  mine: 'Only you favorited',
+  theirs: 'Only they favorited'
+};
+
+/**
+ * Calendar heatmap of a connection's recent favorite days (one column per week)
+ */
+export default function StreakHeatmap({ history }: StreakHeatmapProps) {
+  const dates = getHistoryDates(getTodayDateString(), STREAK_HISTORY_DAYS);
+
+  return (
+    <div className={styles.heatmap}>
+      <div className={styles.grid} role="img" aria-label="Favorite history for the last 12 weeks">
+        {dates.map((date) => {
+          const day = history[date];
+          return (
+            <span
+              key={date}
+              className={`${styles.cell} ${day ? styles[day] : ''}`}
+              title={`${date}: ${day ? DAY_LABELS[day] : 'No favorites'}`}
+            />
+          );
+        })}
+      </div>
+      <div className={styles.legend}>
+        <span className={`${styles.cell} ${styles.both}`} /> Both
+        <span className={`${styles.cell} ${styles.mine}`} /> You
+        <span className={`${styles.cell} ${styles.theirs}`} /> Them
+      </div>
+    </div>
+  );
+}
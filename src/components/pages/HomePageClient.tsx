@@ -5,12 +5,17 @@ import { useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
 import { useDailyId } from '@/hooks/useDailyId';
 import { useChatLimit } from '@/hooks/useChatLimit';
+import { useBan } from '@/hooks/useBan';
+import { banRestricts } from '@/lib/bans';
 import { formatTimeUntilReset } from '@/lib/chatLimitService';
 import DashboardHeader from '@/components/Dashboard/DashboardHeader';
 import DailyIdCard from '@/components/Dashboard/DailyIdCard';
 import ActivitySummary from '@/components/Dashboard/ActivitySummary';
 import OnlineUsersList from '@/components/Dashboard/OnlineUsersList';
+import ModerationWarningBanner from '@/components/Dashboard/ModerationWarningBanner';
+import PushNotificationsToggle from '@/components/Dashboard/PushNotificationsToggle';
 import OnboardingTour from '@/components/OnboardingTour';
+import BannedScreen from '@/components/BannedScreen';
 import styles from '@/app/page.module.css';
 import { useNotifications } from '@/components/ui/NotificationProvider';
 
@@ -18,6 +23,7 @@ export default function HomePageClient() {
   const { user, loading: authLoading, signOut } = useAuth();
   const { dailyId, loading: idLoading, error, timeUntilReset } = useDailyId(user?.uid || null);
   const chatLimit = useChatLimit(user?.uid || null);
+  const { ban, loading: banLoading } = useBan(user?.uid || null);
   const router = useRouter();
   const [showOnboarding, setShowOnboarding] = useState(false);
   const [mounted, setMounted] = useState(false);
@@ -29,13 +35,13 @@ export default function HomePageClient() {
   }, []);
 
   useEffect(() => {
-    if (mounted && !authLoading && !idLoading && (user || !authLoading)) {
+    if (mounted && !authLoading && !idLoading && !banLoading && (user || !authLoading)) {
       const timer = setTimeout(() => {
         setIsReady(true);
       }, 100);
       return () => clearTimeout(timer);
     }
-  }, [mounted, authLoading, idLoading, user]);
+  }, [mounted, authLoading, idLoading, banLoading, user]);
 
   useEffect(() => {
     if (user && !authLoading && !idLoading && dailyId) {
@@ -105,6 +111,11 @@ export default function HomePageClient() {
     return null;
   }
 
+  // Full suspensions get no daily ID, so there is no dashboard to show
+  if (ban && banRestricts(ban, 'dailyId')) {
+    return <BannedScreen ban={ban} onSignOut={signOut} />;
+  }
+
   const handleOnboardingComplete = () => {
     localStorage.setItem('ghostmate-onboarding-completed', 'true');
     localStorage.setItem('ghostmate-onboarding-timestamp', Date.now().toString());
@@ -123,6 +134,7 @@ export default function HomePageClient() {
       <div className={styles.page}>
         <DashboardHeader
           timeUntilReset={timeUntilReset}
+          userId={user?.uid || null}
           onSignOut={signOut}
         />
 
@@ -135,6 +147,9 @@ export default function HomePageClient() {
               </p>
             </div>
 
+            <ModerationWarningBanner userId={user?.uid || null} />
+            <PushNotificationsToggle userId={user?.uid || null} />
+
             <div className={styles.dashboardGrid}>
               <div className={styles.primaryColumn}>
                 <DailyIdCard
@@ -153,6 +168,7 @@ export default function HomePageClient() {
               <ActivitySummary
                 chatsUsed={chatLimit.count}
                 chatsLimit={chatLimit.limit}
+                quota={chatLimit.quota}
                 timeUntilReset={formatTimeUntilReset(chatLimit.timeUntilReset)}
                 userId={user?.uid}
                 dailyId={dailyId}
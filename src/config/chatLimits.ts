@@ -0,0 +1,19 @@
+/**
+ * Chat limit configuration
+ * Shared by the client status UI and the server-side quota check.
+ */
+
+// Default tier: new chats a user may start per reset day
+// (support chats and existing chats are free)
+export const MAX_CHATS_PER_DAY = 5;
+
+// Bonus tier: extra daily chats for keeping a connection streak alive.
+// The highest tier reached by any active connection applies.
+export const STREAK_BONUS_TIERS: ReadonlyArray<{ minStreak: number; bonusChats: number }> = [
+  { minStreak: 30, bonusChats: 3 },
+  { minStreak: 14, bonusChats: 2 },
+  { minStreak: 7, bonusChats: 1 }
+];
+
+// Upper bound for a single admin grant
+export const MAX_GRANTED_CHATS = 20;
@@ -0,0 +1,30 @@
+/**
+ * Messaging configuration
+ * Message paging, edit window, reply quotes, reactions, outbox retries and timings for ephemeral chat signals (typing indicators).
+ */
+
+// Messages loaded when a chat opens, and per "load older" page
+export const MESSAGE_PAGE_SIZE = 30;
+
+// How long after sending a message its sender may edit or unsend it
+export const MESSAGE_EDIT_WINDOW_MS = 2 * 60 * 1000;
+
+// Characters of the original message kept in a reply's quote
+export const REPLY_EXCERPT_LENGTH = 80;
+
+// Reaction palette (database.rules.json accepts exactly these)
+export const REACTION_EMOJIS = ['👍', '❤️', '😂', '😮', '😢', '🔥'] as const;
+
+// Clear our typing flag after this long without a keystroke
+export const TYPING_IDLE_MS = 3000;
+
+// Ignore a typing flag older than this (the writer crashed or lost its connection
+// before onDisconnect fired)
+export const TYPING_STALE_MS = 8000;
+
+// Outbox delivery attempts before a message is marked "failed"
+export const OUTBOX_MAX_ATTEMPTS = 6;
+
+// Retry backoff: 1s, 2s, 4s... capped at OUTBOX_RETRY_MAX_MS
+export const OUTBOX_RETRY_BASE_MS = 1000;
+export const OUTBOX_RETRY_MAX_MS = 30000;
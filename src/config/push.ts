@@ -0,0 +1,13 @@
+/**
+ * Web Push configuration
+ * VAPID keys come from the environment; push is disabled when they are missing.
+ */
+
+// Public VAPID key (base64url) used by browsers to subscribe
+export const PUSH_VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY || '';
+
+// How long a push service keeps an undelivered notification (seconds)
+export const PUSH_TTL_SECONDS = 60 * 60;
+
+// Streak reminders go out when the reset is at most this far away
+export const STREAK_REMINDER_LEAD_MS = 3 * 60 * 60 * 1000;
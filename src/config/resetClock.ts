@@ -0,0 +1,41 @@
+/**
+ * Daily reset configuration
+ * Every "day" in GhostMate (IDs, chat limits, streaks, locks) starts at
+ * RESET_HOUR:00 in RESET_TIMEZONE.
+ */
+
+const DEFAULT_RESET_TIMEZONE = 'Asia/Karachi';
+const DEFAULT_RESET_TIMEZONE_LABEL = 'PKT';
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function parseResetHour(value: string | undefined): number {
+  const hour = Number.parseInt(value ?? '', 10);
+  if (Number.isNaN(hour) || hour < 0 || hour > 23) {
+    return 0;
+  }
+  return hour;
+}
+
+const configuredTimeZone = process.env.NEXT_PUBLIC_RESET_TIMEZONE;
+
+// IANA timezone name, e.g. "Asia/Karachi", "Europe/London", "America/New_York"
+export const RESET_TIMEZONE =
+  configuredTimeZone && isValidTimeZone(configuredTimeZone)
+    ? configuredTimeZone
+    : DEFAULT_RESET_TIMEZONE;
+
+// Hour of the day (0-23, local to RESET_TIMEZONE) when the daily reset happens
+export const RESET_HOUR = parseResetHour(process.env.NEXT_PUBLIC_RESET_HOUR);
+
+// Short label shown to users next to reset times
+export const RESET_TIMEZONE_LABEL =
+  process.env.NEXT_PUBLIC_RESET_TIMEZONE_LABEL ||
+  (RESET_TIMEZONE === DEFAULT_RESET_TIMEZONE ? DEFAULT_RESET_TIMEZONE_LABEL : RESET_TIMEZONE);
@@ -0,0 +1,22 @@
+/**
+ * Streak configuration
+ * Streak freezes and how lapsed connections are expired by the daily reset
+ */
+
+// Expired connections stay listed (with their lost streak) this long before they are marked broken
+export const EXPIRED_CONNECTION_GRACE_DAYS = 7;
+
+// Lost streaks shorter than this end quietly, without a "streak lost" notification
+export const STREAK_LOST_NOTIFY_MIN = 2;
+
+// A connection earns one streak freeze every this many streak days
+export const STREAK_FREEZE_EARN_DAYS = 7;
+
+// Most freezes a connection can hold at once
+export const STREAK_FREEZE_MAX = 3;
+
+// Streak lengths that earn a milestone badge on a connection
+export const STREAK_MILESTONES = [7, 30, 100];
+
+// Days of favorite history shown in the connection heatmap (whole weeks)
+export const STREAK_HISTORY_DAYS = 12 * 7;
@@ -0,0 +1,32 @@
+/**
+ * React Hook for the Current User's Ban
+ * Live active ban (null when none); clears itself when the ban expires
+ */
+
+import { useEffect, useState } from 'react';
+import { listenToActiveBan } from '@/lib/moderationService';
+import type { UserBan } from '@/types/moderation';
+
+export function useBan(userId: string | null): { ban: UserBan | null; loading: boolean } {
+  const [ban, setBan] = useState<UserBan | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    return listenToActiveBan(userId, (activeBan) => {
+      setBan(activeBan);
+      setLoading(false);
+    });
+  }, [userId]);
+
+  // Lift the ban in the UI the moment it runs out
+  useEffect(() => {
+    if (!ban) return;
+
+    const timeout = setTimeout(() => setBan(null), Math.max(0, ban.expiresAt - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [ban]);
+
+  return { ban, loading: userId ? loading : false };
+}
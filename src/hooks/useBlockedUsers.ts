@@ -0,0 +1,19 @@
+/**
+ * React Hook for Blocked Users
+ * Live set of Firebase UIDs the current user has blocked
+ */
+
+import { useEffect, useState } from 'react';
+import { listenToBlockedUserIds } from '@/lib/moderationService';
+
+export function useBlockedUsers(userId: string | null): Set<string> {
+  const [blockedUserIds, setBlockedUserIds] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!userId) return;
+
+    return listenToBlockedUserIds(userId, setBlockedUserIds);
+  }, [userId]);
+
+  return blockedUserIds;
+}
@@ -2,15 +2,25 @@
  * useChat Hook - Real-time chat state management
  */
 
-import { useState, useEffect, useCallback } from 'react';
-import { Message, Chat, NewMessage } from '@/types/chat';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Message, Chat, OutboxMessage, ReactionEmoji } from '@/types/chat';
 import { 
   createOrGetChat, 
-  sendMessage as sendMessageService, 
-  listenToMessages,
+  fetchMessagesPage,
+  listenToMessageChanges,
   getChat,
-  resetUnreadCount
+  resetUnreadCount,
+  markChatSeen,
+  setMessageReaction,
+  editMessage as editMessageService,
+  unsendMessage as unsendMessageService,
+  listenToReadReceipt,
+  setTypingStatus,
+  listenToTyping
 } from '@/lib/chatService';
+import { createMessageReply, mergeMessages, removeMessage, upsertMessage } from '@/lib/chatUtils';
+import { useOutbox } from './useOutbox';
+import { MESSAGE_PAGE_SIZE, TYPING_IDLE_MS, TYPING_STALE_MS } from '@/config/messaging';
 
 interface UseChatProps {
   myDailyId: string;
@@ -20,10 +30,24 @@ interface UseChatProps {
 interface UseChatReturn {
   chatId: string | null;
   messages: Message[];
+  hasOlderMessages: boolean;
+  loadingOlder: boolean;
+  loadOlderMessages: () => Promise<void>;
   loading: boolean;
   error: string | null;
   sendMessage: (text: string) => Promise<void>;
   sending: boolean;
+  pendingMessages: OutboxMessage[]; // Sent from this device but not yet delivered
+  retryMessage: (clientMessageId: string) => void;
+  replyingTo: Message | null; // Message the next send will quote
+  setReplyingTo: (message: Message | null) => void;
+  loadUntilMessage: (messageId: string) => Promise<boolean>;
+  toggleReaction: (message: Message, emoji: ReactionEmoji) => Promise<void>;
+  editMessage: (message: Message, text: string) => Promise<boolean>; // Own messages within the edit window
+  unsendMessage: (message: Message) => Promise<boolean>;
+  otherTyping: boolean;
+  otherSeenUpTo: number; // The other participant has seen every message up to this timestamp
+  notifyTyping: () => void; // Call on every keystroke
 }
 
 /**
@@ -32,9 +56,24 @@ interface UseChatReturn {
 export function useChat({ myDailyId, otherDailyId }: UseChatProps): UseChatReturn {
   const [chatId, setChatId] = useState<string | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
+  // Timestamp of the oldest loaded message; the live listener covers everything from here on
+  const [windowStart, setWindowStart] = useState<number | null>(null);
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [sending, setSending] = useState(false);
+  const [otherTypingSince, setOtherTypingSince] = useState<number | null>(null);
+  const [otherSeenUpTo, setOtherSeenUpTo] = useState(0);
+  const typingSentAtRef = useRef(0);
+  const typingIdleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const seenWrittenRef = useRef(0);
+  const { pendingMessages, enqueue, retry: retryMessage } = useOutbox({
+    chatId,
+    senderId: myDailyId,
+    recipientId: otherDailyId
+  });
 
   // Initialize chat
   useEffect(() => {
@@ -53,7 +92,7 @@ export function useChat({ myDailyId, otherDailyId }: UseChatProps): UseChatRetur
       } catch (err) {
         console.error('Error initializing chat:', err);
         if (isMounted) {
-          setError('Failed to initialize chat');
+          setError(err instanceof Error && err.message ? err.message : 'Failed to initialize chat');
         }
       } finally {
         if (isMounted) {
@@ -71,19 +110,180 @@ export function useChat({ myDailyId, otherDailyId }: UseChatProps): UseChatRetur
     };
   }, [myDailyId, otherDailyId]);
 
-  // Listen to messages
+  // Load the newest page of messages
   useEffect(() => {
     if (!chatId) return;
 
-    const unsubscribe = listenToMessages(chatId, (newMessages) => {
-      setMessages(newMessages);
-    });
+    let isMounted = true;
+    seenWrittenRef.current = 0;
+
+    fetchMessagesPage(chatId, MESSAGE_PAGE_SIZE)
+      .then((page) => {
+        if (!isMounted) return;
+        setMessages(page);
+        setHasOlderMessages(page.length === MESSAGE_PAGE_SIZE);
+        setWindowStart(page.length > 0 ? page[0].timestamp : 0);
+      })
+      .catch((err) => {
+        console.error('Error loading messages:', err);
+        if (isMounted) {
+          // Fall back to listening to the whole day
+          setWindowStart(0);
+        }
+      });
 
     return () => {
-      unsubscribe();
+      isMounted = false;
+      setMessages([]);
+      setWindowStart(null);
+      setHasOlderMessages(false);
     };
   }, [chatId]);
 
+  // Apply message changes one at a time instead of rebuilding the list
+  useEffect(() => {
+    if (!chatId || windowStart === null) return;
+
+    return listenToMessageChanges(chatId, windowStart, {
+      onUpsert: (message) => setMessages((prev) => upsertMessage(prev, message)),
+      onRemove: (messageId) => setMessages((prev) => removeMessage(prev, messageId))
+    });
+  }, [chatId, windowStart]);
+
+  // Fetch the page before `oldest` into the list; resolves to whether even older pages exist
+  const loadPageBefore = useCallback(async (oldest: Message): Promise<{ page: Message[]; hasMore: boolean }> => {
+    const page = await fetchMessagesPage(chatId!, MESSAGE_PAGE_SIZE, oldest);
+    const hasMore = page.length === MESSAGE_PAGE_SIZE;
+
+    setMessages((prev) => mergeMessages(prev, page));
+    setHasOlderMessages(hasMore);
+    if (page.length > 0) {
+      // Widen the live window so edits and deletions of older messages show up too
+      setWindowStart(page[0].timestamp);
+    }
+
+    return { page, hasMore };
+  }, [chatId]);
+
+  // Load the page before the oldest loaded message
+  const loadOlderMessages = useCallback(async () => {
+    const oldest = messages[0];
+    if (!chatId || !oldest || !hasOlderMessages || loadingOlder) return;
+
+    try {
+      setLoadingOlder(true);
+      await loadPageBefore(oldest);
+    } catch (err) {
+      console.error('Error loading older messages:', err);
+    } finally {
+      setLoadingOlder(false);
+    }
+  }, [chatId, messages, hasOlderMessages, loadingOlder, loadPageBefore]);
+
+  // Page back until a message is loaded (for jumping to a quoted message)
+  // Resolves to false if it is not in today's history any more
+  const loadUntilMessage = useCallback(async (messageId: string): Promise<boolean> => {
+    let loaded = messages;
+    let hasMore = hasOlderMessages;
+
+    try {
+      setLoadingOlder(true);
+      while (!loaded.some((message) => message.id === messageId) && hasMore && loaded.length > 0) {
+        const result = await loadPageBefore(loaded[0]);
+        loaded = mergeMessages(loaded, result.page);
+        hasMore = result.hasMore;
+      }
+    } catch (err) {
+      console.error('Error loading quoted message:', err);
+    } finally {
+      setLoadingOlder(false);
+    }
+
+    return loaded.some((message) => message.id === messageId);
+  }, [messages, hasOlderMessages, loadPageBefore]);
+
+  // Listen to the other participant's typing flag and read receipt
+  useEffect(() => {
+    if (!chatId || !otherDailyId) return;
+
+    const unsubscribeTyping = listenToTyping(chatId, otherDailyId, setOtherTypingSince);
+    const unsubscribeReceipt = listenToReadReceipt(chatId, otherDailyId, setOtherSeenUpTo);
+
+    return () => {
+      unsubscribeTyping();
+      unsubscribeReceipt();
+    };
+  }, [chatId, otherDailyId]);
+
+  // Drop a typing flag that stopped being refreshed
+  useEffect(() => {
+    if (otherTypingSince === null) return;
+
+    const timeout = setTimeout(
+      () => setOtherTypingSince(null),
+      Math.max(0, otherTypingSince + TYPING_STALE_MS - Date.now())
+    );
+    return () => clearTimeout(timeout);
+  }, [otherTypingSince]);
+
+  // Mark everything on screen as seen while the chat is visible
+  const latestTimestamp = messages.length > 0 ? messages[messages.length - 1].timestamp : 0;
+
+  useEffect(() => {
+    if (!chatId || !myDailyId || !latestTimestamp) return;
+
+    const markSeen = () => {
+      if (document.hidden || latestTimestamp <= seenWrittenRef.current) return;
+
+      seenWrittenRef.current = latestTimestamp;
+      markChatSeen(chatId, myDailyId, latestTimestamp).catch((err) => {
+        console.error('Failed to update read receipt:', err);
+      });
+    };
+
+    markSeen();
+    document.addEventListener('visibilitychange', markSeen);
+
+    return () => {
+      document.removeEventListener('visibilitychange', markSeen);
+    };
+  }, [chatId, myDailyId, latestTimestamp]);
+
+  const stopTyping = useCallback(() => {
+    if (typingIdleTimerRef.current) {
+      clearTimeout(typingIdleTimerRef.current);
+      typingIdleTimerRef.current = null;
+    }
+
+    if (!chatId || !myDailyId || typingSentAtRef.current === 0) return;
+
+    typingSentAtRef.current = 0;
+    setTypingStatus(chatId, myDailyId, false).catch((err) => {
+      console.error('Failed to clear typing status:', err);
+    });
+  }, [chatId, myDailyId]);
+
+  // Raise (and periodically refresh) our typing flag; it clears after TYPING_IDLE_MS of silence
+  const notifyTyping = useCallback(() => {
+    if (!chatId || !myDailyId) return;
+
+    const now = Date.now();
+    if (now - typingSentAtRef.current >= TYPING_IDLE_MS) {
+      typingSentAtRef.current = now;
+      setTypingStatus(chatId, myDailyId, true).catch((err) => {
+        console.error('Failed to set typing status:', err);
+      });
+    }
+
+    if (typingIdleTimerRef.current) {
+      clearTimeout(typingIdleTimerRef.current);
+    }
+    typingIdleTimerRef.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+  }, [chatId, myDailyId, stopTyping]);
+
+  // Leaving the chat clears the flag
+  useEffect(() => stopTyping, [stopTyping]);
+
   useEffect(() => {
     if (!chatId || !myDailyId) {
       return;
@@ -112,22 +312,15 @@ export function useChat({ myDailyId, otherDailyId }: UseChatProps): UseChatRetur
     };
   }, [chatId, myDailyId]);
 
-  // Send message
+  // Send message through the outbox (shown at once as "sending", delivered in the background)
   const sendMessage = useCallback(async (text: string) => {
-    if (!chatId || !myDailyId || !otherDailyId) {
-      throw new Error('Chat not initialized');
-    }
+    stopTyping();
 
     try {
       setSending(true);
       setError(null);
-
-      const newMessage: NewMessage = {
-        text,
-        recipientId: otherDailyId
-      };
-
-      await sendMessageService(chatId, myDailyId, newMessage);
+      await enqueue(text, replyingTo ? createMessageReply(replyingTo) : undefined);
+      setReplyingTo(null);
     } catch (err: any) {
       console.error('Error sending message:', err);
       setError(err.message || 'Failed to send message');
@@ -135,15 +328,75 @@ export function useChat({ myDailyId, otherDailyId }: UseChatProps): UseChatRetur
     } finally {
       setSending(false);
     }
-  }, [chatId, myDailyId, otherDailyId]);
+  }, [enqueue, replyingTo, stopTyping]);
+
+  // React to a message; picking the current reaction again removes it
+  const toggleReaction = useCallback(async (message: Message, emoji: ReactionEmoji) => {
+    if (!chatId || !myDailyId) return;
+
+    const current = message.reactions?.[myDailyId];
+    try {
+      await setMessageReaction(chatId, message.id, myDailyId, current === emoji ? null : emoji);
+    } catch (err) {
+      console.error('Error updating reaction:', err);
+      setError('Failed to update reaction');
+    }
+  }, [chatId, myDailyId]);
+
+  const editMessage = useCallback(async (message: Message, text: string): Promise<boolean> => {
+    if (!chatId || !myDailyId) return false;
+
+    try {
+      await editMessageService(chatId, message.id, myDailyId, text);
+      return true;
+    } catch (err) {
+      console.error('Error editing message:', err);
+      setError(err instanceof Error ? err.message : 'Failed to edit message');
+      return false;
+    }
+  }, [chatId, myDailyId]);
+
+  const unsendMessage = useCallback(async (message: Message): Promise<boolean> => {
+    if (!chatId || !myDailyId) return false;
+
+    try {
+      await unsendMessageService(chatId, message.id, myDailyId);
+      setReplyingTo((current) => (current?.id === message.id ? null : current));
+      return true;
+    } catch (err) {
+      console.error('Error unsending message:', err);
+      setError(err instanceof Error ? err.message : 'Failed to unsend message');
+      return false;
+    }
+  }, [chatId, myDailyId]);
+
+  // Hide outbox entries the listener has already delivered
+  const visiblePendingMessages = useMemo(() => {
+    const deliveredIds = new Set(messages.map((message) => message.id));
+    return pendingMessages.filter((entry) => !deliveredIds.has(entry.clientMessageId));
+  }, [messages, pendingMessages]);
 
   return {
     chatId,
     messages,
-    loading,
+    hasOlderMessages,
+    loadingOlder,
+    loadOlderMessages,
+    loading: loading || (chatId !== null && windowStart === null), // Includes the first page
     error,
     sendMessage,
-    sending
+    sending,
+    pendingMessages: visiblePendingMessages,
+    retryMessage,
+    replyingTo,
+    setReplyingTo,
+    loadUntilMessage,
+    toggleReaction,
+    editMessage,
+    unsendMessage,
+    otherTyping: otherTypingSince !== null,
+    otherSeenUpTo,
+    notifyTyping
   };
 }
 
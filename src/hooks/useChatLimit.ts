@@ -4,13 +4,20 @@
  */
 
 import { useState, useEffect, useCallback } from 'react';
-import { getChatLimitStatus, incrementChatCount, canInitiateChat } from '@/lib/chatLimitService';
+import { getChatLimitStatus, canInitiateChat } from '@/lib/chatLimitService';
+import { startChat as startChatService } from '@/lib/chatService';
+import { getDefaultChatQuota } from '@/lib/chatQuota';
+import type { ApiErrorCode } from '@/types/api';
+import type { ChatQuotaBreakdown } from '@/types/chatQuota';
+
+const DEFAULT_QUOTA = getDefaultChatQuota();
 
 interface ChatLimitState {
   count: number;
   limit: number;
   remaining: number;
   isLimitReached: boolean;
+  quota: ChatQuotaBreakdown;
   timeUntilReset: {
     hours: number;
     minutes: number;
@@ -21,12 +28,21 @@ interface ChatLimitState {
   error: string | null;
 }
 
+export interface StartChatResult {
+  success: boolean;
+  chatId?: string;
+  created?: boolean; // False when the chat already existed
+  code?: ApiErrorCode;
+  message?: string;
+}
+
 export function useChatLimit(userId: string | null) {
   const [state, setState] = useState<ChatLimitState>({
     count: 0,
-    limit: 5,
-    remaining: 5,
+    limit: DEFAULT_QUOTA.total,
+    remaining: DEFAULT_QUOTA.total,
     isLimitReached: false,
+    quota: DEFAULT_QUOTA,
     timeUntilReset: {
       hours: 0,
       minutes: 0,
@@ -74,41 +90,41 @@ export function useChatLimit(userId: string | null) {
     }
   }, [userId]);
 
-  // Increment count (call this when user initiates a chat)
-  const recordChatInitiation = useCallback(async (): Promise<{
-    success: boolean;
-    message?: string;
-  }> => {
+  // Start a chat through the server (new chats use one of today's slots)
+  const startChat = useCallback(async (myDailyId: string, targetDailyId: string): Promise<StartChatResult> => {
     if (!userId) {
-      return { success: false, message: 'User not authenticated' };
+      return { success: false, code: 'unauthenticated', message: 'User not authenticated' };
     }
 
-    try {
-      const result = await incrementChatCount(userId);
-      
-      // Update local state
-      setState(prev => ({
-        ...prev,
-        count: result.newCount,
-        remaining: result.remaining,
-        isLimitReached: result.limitReached
-      }));
+    const result = await startChatService(myDailyId, targetDailyId);
 
-      if (!result.success) {
-        return {
-          success: false,
-          message: 'Daily chat limit reached. Please wait until midnight PKT.'
-        };
+    if (!result.success) {
+      if (result.code === 'chat-limit-reached') {
+        const { details } = result;
+        setState(prev => ({
+          ...prev,
+          count: typeof details?.count === 'number' ? details.count : prev.limit,
+          remaining: 0,
+          isLimitReached: true
+        }));
       }
 
-      return { success: true };
-    } catch (error: any) {
-      console.error('Error recording chat initiation:', error);
-      return {
-        success: false,
-        message: error.message || 'Failed to record chat initiation'
-      };
+      return { success: false, code: result.code, message: result.message };
+    }
+
+    if (result.chatLimit) {
+      const { count, limit, remaining, quota } = result.chatLimit;
+      setState(prev => ({
+        ...prev,
+        count,
+        limit,
+        remaining,
+        quota,
+        isLimitReached: remaining <= 0
+      }));
     }
+
+    return { success: true, chatId: result.chatId, created: result.created };
   }, [userId]);
 
   // Update countdown timer every second
@@ -152,7 +168,7 @@ export function useChatLimit(userId: string | null) {
     ...state,
     reload: loadStatus,
     checkCanInitiate,
-    recordChatInitiation
+    startChat
   };
 }
 
@@ -0,0 +1,72 @@
+/**
+ * React Hook for "Connections You Made"
+ * Mutual connections resolved to today's daily IDs, with online status and a free reconnect
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { getMyConnections, startConnectionChat } from '@/lib/favoritesService';
+import { listenToOnlineDailyIds } from '@/lib/presenceService';
+import type { ConnectionSummary } from '@/types/favorites';
+import type { StartChatResult } from './useChatLimit';
+
+export interface ConnectionListItem extends ConnectionSummary {
+  isOnline: boolean;
+}
+
+export function useConnections(userId: string | null) {
+  const [connections, setConnections] = useState<ConnectionSummary[]>([]);
+  const [loadedFor, setLoadedFor] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [onlineDailyIds, setOnlineDailyIds] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    getMyConnections()
+      .then((items) => {
+        if (cancelled) return;
+        setConnections(items);
+        setError(null);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error('Error loading connections:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load connections');
+      })
+      .finally(() => {
+        if (!cancelled) setLoadedFor(userId);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  useEffect(() => listenToOnlineDailyIds(setOnlineDailyIds), []);
+
+  const items = useMemo<ConnectionListItem[]>(() => (
+    connections.map((connection) => ({
+      ...connection,
+      isOnline: connection.partnerDailyId !== null && onlineDailyIds.has(connection.partnerDailyId)
+    }))
+  ), [connections, onlineDailyIds]);
+
+  // Open (or reopen) today's chat with a connection
+  const reconnect = useCallback(async (connectionToken: string, myDailyId: string): Promise<StartChatResult> => {
+    const result = await startConnectionChat(connectionToken, myDailyId);
+
+    if (!result.success) {
+      return { success: false, code: result.code, message: result.message };
+    }
+
+    return { success: true, chatId: result.chatId, created: result.created };
+  }, []);
+
+  return {
+    connections: items,
+    loading: userId !== null && loadedFor !== userId,
+    error,
+    reconnect
+  };
+}
@@ -0,0 +1,19 @@
+/**
+ * React Hook for Hidden Users
+ * Live set of Firebase UIDs blocked by or blocking the current user
+ */
+
+import { useEffect, useState } from 'react';
+import { listenToHiddenUserIds } from '@/lib/moderationService';
+
+export function useHiddenUsers(userId: string | null): Set<string> {
+  const [hiddenUserIds, setHiddenUserIds] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!userId) return;
+
+    return listenToHiddenUserIds(userId, setHiddenUserIds);
+  }, [userId]);
+
+  return hiddenUserIds;
+}
@@ -115,10 +115,7 @@ export function useHighlights({
           if (!result.success) {
             setError(result.message || 'Failed to remove highlight');
           } else {
-            await sendSystemMessage(
-              chatId,
-              `☆ ${myDailyId} removed a highlight`
-            );
+            await sendSystemMessage(chatId, myDailyId, 'highlight-removed', messageId);
              logAnalyticsEvent('highlight_remove', {
                chat_id: chatId,
                message_id: messageId,
@@ -144,10 +141,7 @@ export function useHighlights({
           if (!result.success) {
             setError(result.message || 'Failed to add highlight');
           } else {
-            await sendSystemMessage(
-              chatId,
-              `⭐ ${myDailyId} highlighted a message`
-            );
+            await sendSystemMessage(chatId, myDailyId, 'highlight-added', messageId);
              logAnalyticsEvent('highlight_add', {
                chat_id: chatId,
                message_id: messageId,
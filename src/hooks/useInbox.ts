@@ -0,0 +1,65 @@
+/**
+ * React Hook for the Inbox
+ * Today's conversations with unread counts, online and favorite flags, most recent activity first
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { listenToUnreadCounts, listenToUserChats } from '@/lib/chatService';
+import { listenToOnlineDailyIds } from '@/lib/presenceService';
+import { listenToUserFavorites } from '@/lib/favoritesService';
+import type { ChatListItem } from '@/types/chat';
+
+export interface InboxConversation extends ChatListItem {
+  unreadCount: number;
+  isOnline: boolean;
+  isFavorited: boolean;
+}
+
+export function useInbox(
+  userId: string | null,
+  dailyId: string | null
+): { conversations: InboxConversation[]; totalUnread: number; loading: boolean } {
+  const [chats, setChats] = useState<ChatListItem[]>([]);
+  const [loadedFor, setLoadedFor] = useState<string | null>(null);
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
+  const [onlineDailyIds, setOnlineDailyIds] = useState<Set<string>>(new Set());
+  const [favoritedDailyIds, setFavoritedDailyIds] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!dailyId) return;
+
+    const unsubscribeChats = listenToUserChats(dailyId, (items) => {
+      setChats(items);
+      setLoadedFor(dailyId);
+    });
+    const unsubscribeUnread = listenToUnreadCounts(dailyId, setUnreadCounts);
+
+    return () => {
+      unsubscribeChats();
+      unsubscribeUnread();
+    };
+  }, [dailyId]);
+
+  useEffect(() => listenToOnlineDailyIds(setOnlineDailyIds), []);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    return listenToUserFavorites(userId, (favorites) => {
+      setFavoritedDailyIds(new Set(Object.keys(favorites?.favorites ?? {})));
+    });
+  }, [userId]);
+
+  const conversations = useMemo(() => (
+    chats.map((chat) => ({
+      ...chat,
+      unreadCount: unreadCounts[chat.chatId] ?? 0,
+      isOnline: onlineDailyIds.has(chat.otherUserDailyId),
+      isFavorited: favoritedDailyIds.has(chat.otherUserDailyId)
+    }))
+  ), [chats, unreadCounts, onlineDailyIds, favoritedDailyIds]);
+
+  const totalUnread = conversations.reduce((sum, conversation) => sum + conversation.unreadCount, 0);
+
+  return { conversations, totalUnread, loading: dailyId !== null && loadedFor !== dailyId };
+}
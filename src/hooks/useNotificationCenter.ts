@@ -0,0 +1,51 @@
+/**
+ * React Hook for the Notification Center
+ * Today's notifications with unread state; starts a fresh list at the daily reset
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  listenToNotifications,
+  markNotificationRead,
+  markNotificationsRead
+} from '@/lib/notificationsService';
+import { getNextResetStart } from '@/lib/resetClock';
+import type { AppNotification } from '@/types/notifications';
+
+export function useNotificationCenter(userId: string | null) {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [resetCount, setResetCount] = useState(0);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const unsubscribe = listenToNotifications(userId, setNotifications);
+
+    // Re-subscribe with the new day's boundary once the reset passes
+    const resetTimer = setTimeout(
+      () => setResetCount((count) => count + 1),
+      Math.max(0, getNextResetStart().getTime() - Date.now())
+    );
+
+    return () => {
+      unsubscribe();
+      clearTimeout(resetTimer);
+    };
+  }, [userId, resetCount]);
+
+  const visibleNotifications = useMemo(() => (userId ? notifications : []), [userId, notifications]);
+  const unreadCount = visibleNotifications.filter((notification) => !notification.read).length;
+
+  const markRead = useCallback(async (notificationId: string) => {
+    if (!userId) return;
+    await markNotificationRead(userId, notificationId);
+  }, [userId]);
+
+  const markAllRead = useCallback(async () => {
+    if (!userId) return;
+    const unreadIds = visibleNotifications.filter((notification) => !notification.read).map(({ id }) => id);
+    await markNotificationsRead(userId, unreadIds);
+  }, [userId, visibleNotifications]);
+
+  return { notifications: visibleNotifications, unreadCount, markRead, markAllRead };
+}
@@ -0,0 +1,196 @@
+/**
+ * React Hook for the Message Outbox
+ * Shows outgoing messages immediately, delivers them with retry/backoff and
+ * keeps them in IndexedDB until the server accepts them
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  createClientMessageId,
+  MessageSendError,
+  sendMessage as sendMessageService
+} from '@/lib/chatService';
+import { isValidMessage } from '@/lib/chatUtils';
+import { getTodayDateString } from '@/lib/dailyId';
+import { getNextResetStart } from '@/lib/resetClock';
+import {
+  deleteOutboxMessage,
+  getOutboxRetryDelay,
+  loadOutboxMessages,
+  purgeStaleOutbox,
+  saveOutboxMessage
+} from '@/lib/outbox';
+import { OUTBOX_MAX_ATTEMPTS } from '@/config/messaging';
+import type { MessageReply, OutboxMessage } from '@/types/chat';
+
+interface UseOutboxProps {
+  chatId: string | null;
+  senderId: string;
+  recipientId: string;
+}
+
+interface UseOutboxReturn {
+  pendingMessages: OutboxMessage[];
+  enqueue: (text: string, replyTo?: MessageReply) => Promise<void>;
+  retry: (clientMessageId: string) => void;
+}
+
+export function useOutbox({ chatId, senderId, recipientId }: UseOutboxProps): UseOutboxReturn {
+  const [pendingMessages, setPendingMessages] = useState<OutboxMessage[]>([]);
+  const entriesRef = useRef(new Map<string, OutboxMessage>());
+  const timersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  const inFlightRef = useRef(new Set<string>());
+
+  const publish = useCallback(() => {
+    setPendingMessages([...entriesRef.current.values()].sort((a, b) => a.createdAt - b.createdAt));
+  }, []);
+
+  const clearTimer = useCallback((clientMessageId: string) => {
+    const timer = timersRef.current.get(clientMessageId);
+    if (timer) {
+      clearTimeout(timer);
+      timersRef.current.delete(clientMessageId);
+    }
+  }, []);
+
+  const store = useCallback((entry: OutboxMessage) => {
+    entriesRef.current.set(entry.clientMessageId, entry);
+    publish();
+    saveOutboxMessage(entry);
+  }, [publish]);
+
+  const drop = useCallback((clientMessageId: string) => {
+    clearTimer(clientMessageId);
+    entriesRef.current.delete(clientMessageId);
+    publish();
+    deleteOutboxMessage(clientMessageId);
+  }, [clearTimer, publish]);
+
+  const deliver = useCallback(async function deliverEntry(clientMessageId: string): Promise<void> {
+    const entry = entriesRef.current.get(clientMessageId);
+    if (!entry || inFlightRef.current.has(clientMessageId)) return;
+
+    // The chat was wiped at the reset, so there is nothing left to deliver to
+    if (entry.resetDate !== getTodayDateString()) {
+      drop(clientMessageId);
+      return;
+    }
+
+    clearTimer(clientMessageId);
+    inFlightRef.current.add(clientMessageId);
+
+    try {
+      await sendMessageService(entry.chatId, entry.senderId, {
+        text: entry.text,
+        recipientId: entry.recipientId,
+        clientMessageId,
+        replyToMessageId: entry.replyTo?.messageId
+      });
+      drop(clientMessageId);
+    } catch (err) {
+      const attempts = entry.attempts + 1;
+      const retryable = err instanceof MessageSendError && err.retryable;
+
+      if (retryable && attempts < OUTBOX_MAX_ATTEMPTS) {
+        store({ ...entry, attempts, status: 'sending' });
+        timersRef.current.set(
+          clientMessageId,
+          setTimeout(() => deliverEntry(clientMessageId), getOutboxRetryDelay(attempts))
+        );
+      } else {
+        console.error('Error sending message:', err);
+        store({
+          ...entry,
+          attempts,
+          status: 'failed',
+          error: err instanceof Error ? err.message : 'Failed to send message'
+        });
+      }
+    } finally {
+      inFlightRef.current.delete(clientMessageId);
+    }
+  }, [clearTimer, drop, store]);
+
+  // Restore this chat's undelivered messages and resume sending them
+  useEffect(() => {
+    if (!chatId) return;
+
+    let cancelled = false;
+    const entries = entriesRef.current;
+    const timers = timersRef.current;
+    const today = getTodayDateString();
+
+    purgeStaleOutbox(today);
+    loadOutboxMessages(chatId, today).then((saved) => {
+      if (cancelled) return;
+      saved.forEach((entry) => entries.set(entry.clientMessageId, entry));
+      publish();
+      saved
+        .filter((entry) => entry.status === 'sending')
+        .forEach((entry) => deliver(entry.clientMessageId));
+    });
+
+    // Coming back online: retry now instead of waiting out the backoff
+    const handleOnline = () => {
+      entries.forEach((entry) => {
+        if (entry.status === 'sending') {
+          deliver(entry.clientMessageId);
+        }
+      });
+    };
+    window.addEventListener('online', handleOnline);
+
+    // Drop whatever is still queued when the day resets
+    const resetTimer = setTimeout(() => {
+      [...entries.keys()].forEach(drop);
+    }, Math.max(0, getNextResetStart().getTime() - Date.now()));
+
+    return () => {
+      cancelled = true;
+      window.removeEventListener('online', handleOnline);
+      clearTimeout(resetTimer);
+      timers.forEach((timer) => clearTimeout(timer));
+      timers.clear();
+      entries.clear();
+      setPendingMessages([]);
+    };
+  }, [chatId, deliver, drop, publish]);
+
+  // Show the message right away and start delivering it
+  const enqueue = useCallback(async (text: string, replyTo?: MessageReply) => {
+    if (!chatId || !senderId || !recipientId) {
+      throw new Error('Chat not initialized');
+    }
+
+    if (!isValidMessage(text)) {
+      throw new Error('Invalid message: Message must be 1-1000 characters');
+    }
+
+    const entry: OutboxMessage = {
+      clientMessageId: createClientMessageId(chatId),
+      chatId,
+      senderId,
+      recipientId,
+      text,
+      ...(replyTo ? { replyTo } : {}),
+      createdAt: Date.now(),
+      resetDate: getTodayDateString(),
+      attempts: 0,
+      status: 'sending'
+    };
+
+    store(entry);
+    deliver(entry.clientMessageId);
+  }, [chatId, senderId, recipientId, store, deliver]);
+
+  // Manual retry of a failed message starts a fresh round of attempts
+  const retry = useCallback((clientMessageId: string) => {
+    const entry = entriesRef.current.get(clientMessageId);
+    if (!entry) return;
+
+    store({ ...entry, attempts: 0, status: 'sending', error: undefined });
+    deliver(clientMessageId);
+  }, [store, deliver]);
+
+  return { pendingMessages, enqueue, retry };
+}
@@ -0,0 +1,48 @@
+/**
+ * React Hook for Push Notification Opt-in
+ * Current push state of this browser with enable/disable actions
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  disablePushNotifications,
+  enablePushNotifications,
+  getPushState,
+  type PushState
+} from '@/lib/pushService';
+
+export function usePushNotifications(userId: string | null) {
+  const [state, setState] = useState<PushState | null>(null); // null while checking
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    getPushState().then((current) => {
+      if (!cancelled) setState(current);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const enable = useCallback(async () => {
+    setBusy(true);
+    const result = await enablePushNotifications();
+    setState(await getPushState());
+    setBusy(false);
+    return result;
+  }, []);
+
+  const disable = useCallback(async () => {
+    setBusy(true);
+    const result = await disablePushNotifications();
+    setState(await getPushState());
+    setBusy(false);
+    return result;
+  }, []);
+
+  return { state, busy, enable, disable };
+}
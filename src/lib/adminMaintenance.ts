@@ -17,6 +17,7 @@ import {
 } from 'firebase/firestore';
 import { database, db } from './firebase';
 import { getTodayMidnight } from './dailyId';
+import { planExpiredChatCleanup } from './chatUtils';
 
 export interface DeleteChatsResult {
   deletedChats: number;
@@ -116,65 +117,30 @@ export async function deleteAllChats(): Promise<DeleteChatsResult> {
 
   await Promise.all([
     set(chatsRef, null),
-    set(ref(database, 'userUnread'), null)
+    set(ref(database, 'userUnread'), null),
+    set(ref(database, 'userChats'), null)
   ]);
 
   return { deletedChats, deletedMessages };
 }
 
 export async function deleteExpiredChats(): Promise<DeleteChatsResult> {
-  const chatsRef = ref(database, 'chats');
-  const snapshot = await get(chatsRef);
+  const [chatsSnapshot, unreadSnapshot, userChatsSnapshot] = await Promise.all([
+    get(ref(database, 'chats')),
+    get(ref(database, 'userUnread')),
+    get(ref(database, 'userChats'))
+  ]);
 
-  if (!snapshot.exists()) {
+  if (!chatsSnapshot.exists() && !unreadSnapshot.exists() && !userChatsSnapshot.exists()) {
     return { deletedChats: 0, deletedMessages: 0 };
   }
 
-  const chatsData = snapshot.val() as Record<string, any>;
-  const midnight = getTodayMidnight().getTime();
-
-  const updates: Record<string, any> = {};
-  let deletedChats = 0;
-  let deletedMessages = 0;
-
-  Object.entries(chatsData).forEach(([chatId, chatValue]) => {
-    const chat = chatValue as any;
-    const messages = chat?.messages || {};
-    const messageEntries = Object.entries(messages) as Array<[string, any]>;
-
-    if (messageEntries.length === 0) {
-      updates[`chats/${chatId}`] = null;
-      deletedChats += 1;
-      return;
-    }
-
-    const freshMessages = messageEntries.filter(([, message]) => message?.timestamp >= midnight);
-
-    if (freshMessages.length === 0) {
-      updates[`chats/${chatId}`] = null;
-      deletedChats += 1;
-      deletedMessages += messageEntries.length;
-      return;
-    }
-
-    messageEntries.forEach(([messageId, message]) => {
-      if (message?.timestamp < midnight) {
-        updates[`chats/${chatId}/messages/${messageId}`] = null;
-        deletedMessages += 1;
-      }
-    });
-
-    const latestMessage = freshMessages
-      .map(([, message]) => message)
-      .sort((a, b) => (a.timestamp || 0) - (b.timestamp || 0))
-      .pop();
-
-    if (latestMessage) {
-      updates[`chats/${chatId}/lastMessage`] = (latestMessage.text || '').slice(0, 100);
-      updates[`chats/${chatId}/lastMessageTimestamp`] = latestMessage.timestamp || Date.now();
-      updates[`chats/${chatId}/updatedAt`] = Date.now();
-    }
-  });
+  const { updates, deletedChats, deletedMessages } = planExpiredChatCleanup(
+    chatsSnapshot.val(),
+    unreadSnapshot.val(),
+    userChatsSnapshot.val(),
+    getTodayMidnight().getTime()
+  );
 
   if (Object.keys(updates).length > 0) {
     await update(ref(database), updates);
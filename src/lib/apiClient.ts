@@ -0,0 +1,42 @@
+/**
+ * API Client
+ * Calls GhostMate route handlers with the signed-in user's Firebase ID token
+ */
+
+import { auth } from './firebase';
+import type { ApiResponse } from '@/types/api';
+
+interface ApiRequestOptions {
+  method?: 'GET' | 'POST' | 'PATCH' | 'DELETE';
+  body?: unknown;
+}
+
+/**
+ * Call an API route and return its parsed JSON response
+ * Network failures are reported as a `network-error` response instead of throwing
+ */
+export async function apiRequest<T extends object = object>(
+  path: string,
+  { method = 'POST', body }: ApiRequestOptions = {}
+): Promise<ApiResponse<T>> {
+  try {
+    const token = await auth.currentUser?.getIdToken();
+    const response = await fetch(path, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {})
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+    return (await response.json()) as ApiResponse<T>;
+  } catch (error) {
+    console.error(`API request to ${path} failed:`, error);
+    return {
+      success: false,
+      code: 'network-error',
+      message: 'Could not reach GhostMate. Check your connection and try again.'
+    };
+  }
+}
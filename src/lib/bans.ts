@@ -0,0 +1,41 @@
+/**
+ * Ban Helpers
+ * Pure checks shared by the client, firestore.rules mirrors and API routes
+ */
+
+import type { BanScope, UserBan } from '@/types/moderation';
+
+export type BanRestrictedArea = 'dailyId' | 'chat' | 'stories';
+
+/**
+ * Scope of a ban (older bans without a scope are full suspensions)
+ */
+export function getBanScope(ban: Pick<UserBan, 'scope'>): BanScope {
+  return ban.scope ?? 'full';
+}
+
+/**
+ * Check whether a ban is still in effect
+ */
+export function isBanActive(ban: UserBan | null | undefined, now = Date.now()): ban is UserBan {
+  return !!ban && ban.expiresAt > now;
+}
+
+/**
+ * Check whether an active ban blocks an area of the app
+ * - full: no daily ID, chats or stories
+ * - chat: no new chats or messages
+ * - stories: no highlights (so nothing is queued for stories)
+ */
+export function banRestricts(
+  ban: UserBan | null | undefined,
+  area: BanRestrictedArea,
+  now = Date.now()
+): boolean {
+  if (!isBanActive(ban, now)) {
+    return false;
+  }
+
+  const scope = getBanScope(ban);
+  return scope === 'full' || scope === area;
+}
@@ -1,30 +1,49 @@
 /**
  * Chat Limit Service - Daily Chat Initiation Tracking
- * Enforces the 5 chats per day limit for each user
+ * Reads the daily chat initiation limit for each user
+ * (the count itself is enforced and incremented by POST /api/chats)
  */
 
-import { doc, getDoc, updateDoc, setDoc, runTransaction } from 'firebase/firestore';
+import { collection, doc, getDoc, getDocs, query, runTransaction, updateDoc, where } from 'firebase/firestore';
 import { db } from './firebase';
-import { getTodayMidnight, getTimeUntilMidnight } from './dailyId';
+import { getTodayDateString, getTimeUntilMidnight } from './dailyId';
+import { MAX_GRANTED_CHATS } from '@/config/chatLimits';
+import { resolveChatQuota } from './chatQuota';
+import type { ChatQuotaBreakdown, ChatQuotaDoc, ChatQuotaGrant } from '@/types/chatQuota';
+import type { Connection } from '@/types/favorites';
 
 export interface ChatLimitData {
   userId: string;
   chatCount: number;
-  lastResetDate: string; // YYYY-MM-DD in PKT
+  lastResetDate: string; // YYYY-MM-DD in the reset timezone
   lastUpdated: number; // Unix timestamp
 }
 
-const MAX_CHATS_PER_DAY = 5;
+/**
+ * Longest streak among the user's active connections (drives the bonus tier)
+ */
+async function getBestActiveStreak(userId: string): Promise<number> {
+  const connectionsSnapshot = await getDocs(
+    query(collection(db, 'connections'), where('userIds', 'array-contains', userId))
+  );
+
+  return connectionsSnapshot.docs.reduce((best, docSnap) => {
+    const data = docSnap.data() as Connection;
+    return data.status === 'active' ? Math.max(best, data.streakCount || 0) : best;
+  }, 0);
+}
 
 /**
- * Get the current date string in PKT timezone (YYYY-MM-DD)
+ * Get the user's quota for today (default tier + streak bonus + admin grant)
  */
-function getTodayDateString(): string {
-  const today = getTodayMidnight();
-  const year = today.getFullYear();
-  const month = String(today.getMonth() + 1).padStart(2, '0');
-  const day = String(today.getDate()).padStart(2, '0');
-  return `${year}-${month}-${day}`;
+export async function getChatQuota(userId: string): Promise<ChatQuotaBreakdown> {
+  const [quotaDoc, bestStreak] = await Promise.all([
+    getDoc(doc(db, 'chatQuotas', userId)),
+    getBestActiveStreak(userId)
+  ]);
+
+  const quotaData = quotaDoc.exists() ? (quotaDoc.data() as ChatQuotaDoc) : null;
+  return resolveChatQuota(quotaData, bestStreak, getTodayDateString());
 }
 
 /**
@@ -35,6 +54,7 @@ export async function getChatLimitStatus(userId: string): Promise<{
   limit: number;
   remaining: number;
   isLimitReached: boolean;
+  quota: ChatQuotaBreakdown;
   timeUntilReset: {
     hours: number;
     minutes: number;
@@ -44,7 +64,7 @@ export async function getChatLimitStatus(userId: string): Promise<{
 }> {
   try {
     const userRef = doc(db, 'users', userId);
-    const userDoc = await getDoc(userRef);
+    const [userDoc, quota] = await Promise.all([getDoc(userRef), getChatQuota(userId)]);
     
     const today = getTodayDateString();
     let chatCount = 0;
@@ -52,21 +72,22 @@ export async function getChatLimitStatus(userId: string): Promise<{
     if (userDoc.exists()) {
       const data = userDoc.data();
       
-      // Check if the date matches today (PKT)
+      // Check if the date matches today
       if (data.chatLimit?.lastResetDate === today) {
         chatCount = data.chatLimit?.chatCount || 0;
       }
       // If different date, count resets to 0
     }
     
-    const remaining = Math.max(0, MAX_CHATS_PER_DAY - chatCount);
+    const remaining = Math.max(0, quota.total - chatCount);
     const timeUntilReset = getTimeUntilMidnight();
     
     return {
       count: chatCount,
-      limit: MAX_CHATS_PER_DAY,
+      limit: quota.total,
       remaining,
-      isLimitReached: chatCount >= MAX_CHATS_PER_DAY,
+      isLimitReached: chatCount >= quota.total,
+      quota,
       timeUntilReset
     };
   } catch (error) {
@@ -75,84 +96,6 @@ export async function getChatLimitStatus(userId: string): Promise<{
   }
 }
 
-/**
- * Increment chat initiation count (with automatic reset if new day)
- * Returns false if limit is reached, true if increment succeeded
- */
-export async function incrementChatCount(userId: string): Promise<{
-  success: boolean;
-  newCount: number;
-  remaining: number;
-  limitReached: boolean;
-}> {
-  try {
-    const userRef = doc(db, 'users', userId);
-    const today = getTodayDateString();
-    
-    // Use transaction for atomicity (prevent race conditions)
-    const result = await runTransaction(db, async (transaction) => {
-      const userDoc = await transaction.get(userRef);
-      
-      let currentCount = 0;
-      
-      if (userDoc.exists()) {
-        const data = userDoc.data();
-        const lastResetDate = data.chatLimit?.lastResetDate;
-        
-        // If same day, use existing count
-        if (lastResetDate === today) {
-          currentCount = data.chatLimit?.chatCount || 0;
-        }
-        // If different day, count resets to 0
-      }
-      
-      // Check if limit already reached
-      if (currentCount >= MAX_CHATS_PER_DAY) {
-        return {
-          success: false,
-          newCount: currentCount,
-          remaining: 0,
-          limitReached: true
-        };
-      }
-      
-      // Increment count
-      const newCount = currentCount + 1;
-      const limitReached = newCount >= MAX_CHATS_PER_DAY;
-      
-      // Update or create document
-      if (userDoc.exists()) {
-        transaction.update(userRef, {
-          'chatLimit.chatCount': newCount,
-          'chatLimit.lastResetDate': today,
-          'chatLimit.lastUpdated': Date.now()
-        });
-      } else {
-        transaction.set(userRef, {
-          userId,
-          chatLimit: {
-            chatCount: newCount,
-            lastResetDate: today,
-            lastUpdated: Date.now()
-          }
-        });
-      }
-      
-      return {
-        success: true,
-        newCount,
-        remaining: MAX_CHATS_PER_DAY - newCount,
-        limitReached
-      };
-    });
-    
-    return result;
-  } catch (error) {
-    console.error('Error incrementing chat count:', error);
-    throw error;
-  }
-}
-
 /**
  * Check if user can initiate a new chat (without incrementing)
  */
@@ -167,7 +110,7 @@ export async function canInitiateChat(userId: string): Promise<boolean> {
 }
 
 /**
- * Reset chat count for a user (for testing/admin purposes)
+ * Reset chat count for a user (admin only; blocked for regular users by firestore.rules)
  */
 export async function resetChatCount(userId: string): Promise<void> {
   try {
@@ -183,6 +126,55 @@ export async function resetChatCount(userId: string): Promise<void> {
   }
 }
 
+/**
+ * Grant a user extra chats for today only (admin only; see firestore.rules)
+ * Grants issued on the same reset day add up
+ */
+export async function grantExtraChats(
+  userId: string,
+  extraChats: number,
+  grantedBy: string,
+  reason?: string
+): Promise<{ success: boolean; message: string; totalGranted?: number }> {
+  if (!userId || !Number.isInteger(extraChats) || extraChats < 1 || extraChats > MAX_GRANTED_CHATS) {
+    return { success: false, message: `Grant between 1 and ${MAX_GRANTED_CHATS} chats` };
+  }
+
+  try {
+    const quotaRef = doc(db, 'chatQuotas', userId);
+    const today = getTodayDateString();
+
+    const totalGranted = await runTransaction(db, async (transaction) => {
+      const quotaDoc = await transaction.get(quotaRef);
+      const existing = quotaDoc.exists() ? (quotaDoc.data() as ChatQuotaDoc) : null;
+      const existingGrant = existing?.grant;
+      const alreadyGranted = existingGrant?.resetDate === today ? existingGrant.extraChats : 0;
+      const newTotal = alreadyGranted + extraChats;
+
+      // Replace the grant wholesale so an older day's reason never lingers
+      const grant: ChatQuotaGrant = {
+        resetDate: today,
+        extraChats: newTotal,
+        grantedBy,
+        grantedAt: Date.now(),
+        ...(reason ? { reason } : {})
+      };
+      transaction.set(quotaRef, { ...existing, userId, grant });
+
+      return newTotal;
+    });
+
+    return {
+      success: true,
+      message: `Granted ${extraChats} extra chat${extraChats === 1 ? '' : 's'} for today`,
+      totalGranted
+    };
+  } catch (error) {
+    console.error('Error granting extra chats:', error);
+    return { success: false, message: 'Failed to grant extra chats' };
+  }
+}
+
 /**
  * Format time until reset for display
  */
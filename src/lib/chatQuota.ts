@@ -0,0 +1,66 @@
+/**
+ * Chat Quota Resolution
+ * Pure helpers that combine the default tier, streak bonus and admin grants
+ * into today's chat limit (used by both client and server)
+ */
+
+import { MAX_CHATS_PER_DAY, STREAK_BONUS_TIERS } from '@/config/chatLimits';
+import type { ChatQuotaBreakdown, ChatQuotaDoc } from '@/types/chatQuota';
+
+/**
+ * Extra daily chats earned by the longest active connection streak
+ */
+export function getStreakBonus(bestStreak: number): number {
+  const tier = STREAK_BONUS_TIERS.find(({ minStreak }) => bestStreak >= minStreak);
+  return tier ? tier.bonusChats : 0;
+}
+
+/**
+ * Resolve today's chat limit and where it comes from
+ * Grants only count on the reset day they were issued for
+ */
+export function resolveChatQuota(
+  quotaDoc: Partial<ChatQuotaDoc> | null | undefined,
+  bestStreak: number,
+  today: string
+): ChatQuotaBreakdown {
+  const base =
+    typeof quotaDoc?.baseLimit === 'number' && quotaDoc.baseLimit >= 0
+      ? Math.floor(quotaDoc.baseLimit)
+      : MAX_CHATS_PER_DAY;
+  const bonus = getStreakBonus(bestStreak);
+  const granted =
+    quotaDoc?.grant?.resetDate === today ? Math.max(0, Math.floor(quotaDoc.grant.extraChats || 0)) : 0;
+
+  return {
+    base,
+    bonus,
+    granted,
+    total: base + bonus + granted,
+    bestStreak
+  };
+}
+
+/**
+ * Default quota used before a user's quota has loaded
+ */
+export function getDefaultChatQuota(): ChatQuotaBreakdown {
+  return resolveChatQuota(null, 0, '');
+}
+
+/**
+ * Describe a quota for display, e.g. "5 + 2 bonus + 1 granted"
+ */
+export function formatChatQuota(quota: ChatQuotaBreakdown): string {
+  const parts = [`${quota.base}`];
+
+  if (quota.bonus > 0) {
+    parts.push(`${quota.bonus} bonus`);
+  }
+
+  if (quota.granted > 0) {
+    parts.push(`${quota.granted} granted`);
+  }
+
+  return parts.join(' + ');
+}
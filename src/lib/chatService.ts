@@ -4,38 +4,82 @@
  */
 
 import { database } from './firebase';
-import { ref, push, set, update, onValue, off, query, orderByChild, get, runTransaction } from 'firebase/database';
-import { Chat, Message, NewMessage } from '@/types/chat';
-import { generateChatId, sanitizeMessageText, isValidMessage } from './chatUtils';
+import {
+  ref,
+  push,
+  set,
+  update,
+  onValue,
+  off,
+  query,
+  orderByChild,
+  get,
+  onDisconnect,
+  remove,
+  startAt,
+  endBefore,
+  limitToLast,
+  onChildAdded,
+  onChildChanged,
+  onChildRemoved
+} from 'firebase/database';
+import type { DataSnapshot } from 'firebase/database';
+import { Chat, ChatListItem, Message, NewMessage, ReactionEmoji, UserChatEntry } from '@/types/chat';
+import { getOtherParticipantId, isValidMessage } from './chatUtils';
 import { getTodayMidnight } from './dailyId';
+import { apiRequest } from './apiClient';
+import type {
+  ApiErrorCode,
+  ApiResponse,
+  ChangeMessageResponse,
+  SendMessageResponse,
+  StartChatResponse,
+  SystemMessageEvent,
+  SystemMessageResponse
+} from '@/types/api';
+
+/**
+ * Thrown when the server rejects or never receives a message
+ */
+export class MessageSendError extends Error {
+  readonly code: ApiErrorCode;
+
+  constructor(code: ApiErrorCode, message: string) {
+    super(message);
+    this.name = 'MessageSendError';
+    this.code = code;
+  }
+
+  // Connection drops and server hiccups are worth retrying; rejections are not
+  get retryable(): boolean {
+    return this.code === 'network-error' || this.code === 'internal';
+  }
+}
+
+/**
+ * Start a one-to-one chat through the server
+ * The server creates the chat and charges the initiator's daily limit in one step
+ */
+export async function startChat(
+  myDailyId: string,
+  otherDailyId: string
+): Promise<ApiResponse<StartChatResponse>> {
+  return apiRequest<StartChatResponse>('/api/chats', {
+    body: { myDailyId, otherDailyId }
+  });
+}
 
 /**
  * Create or get a one-to-one chat between two users
  */
 export async function createOrGetChat(myDailyId: string, otherDailyId: string): Promise<string> {
-  const chatId = generateChatId(myDailyId, otherDailyId);
-  const chatRef = ref(database, `chats/${chatId}`);
-  
-  // Check if chat already exists
-  const snapshot = await get(chatRef);
-  
-  if (!snapshot.exists()) {
-    // Create new chat
-    const newChat: Partial<Chat> = {
-      chatId,
-      participants: {
-        [myDailyId]: true,
-        [otherDailyId]: true
-      },
-      participantIds: [myDailyId, otherDailyId],
-      createdAt: Date.now(),
-      updatedAt: Date.now()
-    };
-    
-    await set(chatRef, newChat);
+  const result = await startChat(myDailyId, otherDailyId);
+
+  if (!result.success) {
+    throw new Error(result.message);
   }
-  
-  return chatId;
+
+  return result.chatId;
 }
 
 /**
@@ -50,85 +94,95 @@ export async function sendMessage(
   if (!isValidMessage(message.text)) {
     throw new Error('Invalid message: Message must be 1-1000 characters');
   }
-  
-  // Sanitize message text
-  const sanitizedText = sanitizeMessageText(message.text);
-  
-  // Create message object
-  const newMessage: Omit<Message, 'id'> = {
-    senderId,
-    recipientId: message.recipientId,
-    text: sanitizedText,
-    timestamp: Date.now(),
-    read: false
-  };
-  
-  // Push message to database
-  const messagesRef = ref(database, `chats/${chatId}/messages`);
-  const newMessageRef = push(messagesRef);
-  
-  await set(newMessageRef, newMessage);
-  
-  // Update chat metadata
-  const chatRef = ref(database, `chats/${chatId}`);
-  await update(chatRef, {
-    lastMessage: sanitizedText.substring(0, 100), // First 100 chars for preview
-    lastMessageTimestamp: Date.now(),
-    updatedAt: Date.now()
+
+  // The server verifies ownership and writes the message, preview and unread counters atomically
+  const result = await apiRequest<SendMessageResponse>(`/api/chats/${encodeURIComponent(chatId)}/messages`, {
+    body: {
+      senderId,
+      recipientId: message.recipientId,
+      text: message.text,
+      clientMessageId: message.clientMessageId,
+      replyToMessageId: message.replyToMessageId
+    }
   });
 
-  const recipientId = message.recipientId;
-  const unreadRef = ref(database, `chats/${chatId}/unreadCounts/${recipientId}`);
-  const transactionResult = await runTransaction(unreadRef, (current) => (current || 0) + 1);
-  const newUnreadCount = transactionResult.snapshot?.val() ?? 0;
+  if (!result.success) {
+    throw new MessageSendError(result.code, result.message);
+  }
+}
 
-  const rootRef = ref(database);
-  await update(rootRef, {
-    [`userUnread/${recipientId}/${chatId}`]: newUnreadCount,
-    [`userUnread/${senderId}/${chatId}`]: 0,
-    [`chats/${chatId}/unreadCounts/${senderId}`]: 0
-  });
+/**
+ * Edit one of your own messages while the edit window is open
+ */
+export async function editMessage(
+  chatId: string,
+  messageId: string,
+  senderId: string,
+  text: string
+): Promise<void> {
+  if (!isValidMessage(text)) {
+    throw new Error('Invalid message: Message must be 1-1000 characters');
+  }
+
+  const result = await apiRequest<ChangeMessageResponse>(
+    `/api/chats/${encodeURIComponent(chatId)}/messages/${encodeURIComponent(messageId)}`,
+    { method: 'PATCH', body: { senderId, text } }
+  );
+
+  if (!result.success) {
+    throw new Error(result.message);
+  }
+}
+
+/**
+ * Unsend one of your own messages while the edit window is open
+ * Both participants see a tombstone in its place.
+ */
+export async function unsendMessage(chatId: string, messageId: string, senderId: string): Promise<void> {
+  const result = await apiRequest<ChangeMessageResponse>(
+    `/api/chats/${encodeURIComponent(chatId)}/messages/${encodeURIComponent(messageId)}`,
+    { method: 'DELETE', body: { senderId } }
+  );
+
+  if (!result.success) {
+    throw new Error(result.message);
+  }
+}
+
+/**
+ * Generate a message ID on the client (a push key, created without any network call)
+ * Sent as `clientMessageId` so retries of the same message are deduplicated
+ */
+export function createClientMessageId(chatId: string): string {
+  return push(ref(database, `chats/${chatId}/messages`)).key!;
 }
 
 /**
- * Send a system message (notification) in a chat
- * Used for favorites, connection notifications, etc.
+ * Ask the server to post a system message about your own highlight change
+ * Clients cannot write system messages directly, so the server words and checks them.
  */
 export async function sendSystemMessage(
   chatId: string,
-  text: string
+  myDailyId: string,
+  event: SystemMessageEvent,
+  messageId: string
 ): Promise<void> {
-  // Create system message object
-  const systemMessage: Omit<Message, 'id'> = {
-    senderId: 'system',
-    recipientId: 'system',
-    text,
-    timestamp: Date.now(),
-    read: false,
-    isSystemMessage: true
-  };
-  
-  // Push message to database
-  const messagesRef = ref(database, `chats/${chatId}/messages`);
-  const newMessageRef = push(messagesRef);
-  
-  await set(newMessageRef, systemMessage);
-  
-  // Update chat metadata
-  const chatRef = ref(database, `chats/${chatId}`);
-  await update(chatRef, {
-    lastMessage: text.substring(0, 100),
-    lastMessageTimestamp: Date.now(),
-    updatedAt: Date.now()
+  const result = await apiRequest<SystemMessageResponse>(`/api/chats/${encodeURIComponent(chatId)}/system-messages`, {
+    body: { myDailyId, event, messageId }
   });
+
+  if (!result.success) {
+    throw new Error(result.message);
+  }
 }
 
 /**
  * Listen for new messages in a chat
  * Returns unsubscribe function
  * 
- * IMPORTANT: Automatically filters out messages older than midnight PKT
- * This provides client-side message expiry without needing Cloud Functions
+ * IMPORTANT: Automatically filters out messages older than the last daily reset
+ * The scheduled reset job deletes them server-side; this filter hides any
+ * stragglers between midnight and the job finishing
  */
 export function listenToMessages(
   chatId: string,
@@ -144,7 +198,7 @@ export function listenToMessages(
     snapshot.forEach((childSnapshot) => {
       const message = childSnapshot.val() as Omit<Message, 'id'>;
       
-      // Only include messages from today (after midnight PKT)
+      // Only include messages from today (after the last reset)
       if (message.timestamp >= midnightTimestamp) {
         messages.push({
           id: childSnapshot.key!,
@@ -159,6 +213,66 @@ export function listenToMessages(
   return () => off(messagesQuery);
 }
 
+function toMessage(snapshot: DataSnapshot): Message {
+  return { id: snapshot.key!, ...(snapshot.val() as Omit<Message, 'id'>) };
+}
+
+/**
+ * Load one page of today's messages (oldest first)
+ * Without `before` this is the newest page; with it, the page just older than that message
+ */
+export async function fetchMessagesPage(
+  chatId: string,
+  pageSize: number,
+  before?: Pick<Message, 'id' | 'timestamp'>
+): Promise<Message[]> {
+  const messagesRef = ref(database, `chats/${chatId}/messages`);
+  const midnightTimestamp = getTodayMidnight().getTime();
+  const pageQuery = query(
+    messagesRef,
+    orderByChild('timestamp'),
+    startAt(midnightTimestamp),
+    ...(before ? [endBefore(before.timestamp, before.id)] : []),
+    limitToLast(pageSize)
+  );
+
+  const snapshot = await get(pageQuery);
+  const messages: Message[] = [];
+  snapshot.forEach((childSnapshot) => {
+    messages.push(toMessage(childSnapshot));
+  });
+
+  return messages;
+}
+
+/**
+ * Listen to individual message changes from `fromTimestamp` onwards
+ * Covers the loaded window plus every new message; each event carries one message
+ * Returns unsubscribe function
+ */
+export function listenToMessageChanges(
+  chatId: string,
+  fromTimestamp: number,
+  handlers: {
+    onUpsert: (message: Message) => void;
+    onRemove: (messageId: string) => void;
+  }
+): () => void {
+  const messagesQuery = query(
+    ref(database, `chats/${chatId}/messages`),
+    orderByChild('timestamp'),
+    startAt(Math.max(fromTimestamp, getTodayMidnight().getTime()))
+  );
+
+  const unsubscribers = [
+    onChildAdded(messagesQuery, (snapshot) => handlers.onUpsert(toMessage(snapshot))),
+    onChildChanged(messagesQuery, (snapshot) => handlers.onUpsert(toMessage(snapshot))),
+    onChildRemoved(messagesQuery, (snapshot) => handlers.onRemove(snapshot.key!))
+  ];
+
+  return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+}
+
 /**
  * Get chat metadata
  */
@@ -181,26 +295,51 @@ export async function resetUnreadCount(chatId: string, dailyId: string): Promise
   });
 }
 
+/**
+ * Read one `userChats/{dailyId}/{chatId}` entry (entries written before the backfill may be partial)
+ */
+function readUserChatEntry(snapshot: DataSnapshot, dailyId: string): UserChatEntry & { chatId: string } {
+  const chatId = snapshot.key!;
+  const entry = snapshot.val() as Partial<UserChatEntry>;
+  const createdAt = entry.createdAt || 0;
+
+  return {
+    chatId,
+    otherDailyId: entry.otherDailyId || getOtherParticipantId(chatId, dailyId),
+    lastMessage: entry.lastMessage,
+    lastMessageTimestamp: entry.lastMessageTimestamp,
+    createdAt,
+    updatedAt: entry.updatedAt || createdAt
+  };
+}
+
 /**
  * Get all chats for a user (by their daily ID)
+ * Reads only the user's `userChats` index, never the whole chats tree
  */
 export async function getUserChats(dailyId: string): Promise<Chat[]> {
-  const chatsRef = ref(database, 'chats');
-  const snapshot = await get(chatsRef);
-  
+  const snapshot = await get(ref(database, `userChats/${dailyId}`));
+
   if (!snapshot.exists()) {
     return [];
   }
-  
+
   const chats: Chat[] = [];
   snapshot.forEach((childSnapshot) => {
-    const chat = childSnapshot.val() as Chat;
-    // Check if user is a participant
-    if (chat.participants && chat.participants[dailyId]) {
-      chats.push(chat);
-    }
+    const { chatId, otherDailyId, lastMessage, lastMessageTimestamp, createdAt, updatedAt } =
+      readUserChatEntry(childSnapshot, dailyId);
+
+    chats.push({
+      chatId,
+      participants: { [dailyId]: true, [otherDailyId]: true },
+      participantIds: [dailyId, otherDailyId],
+      lastMessage,
+      lastMessageTimestamp,
+      createdAt,
+      updatedAt
+    });
   });
-  
+
   // Sort by last message timestamp (most recent first)
   return chats.sort((a, b) => {
     const timeA = a.lastMessageTimestamp || a.createdAt || 0;
@@ -210,18 +349,141 @@ export async function getUserChats(dailyId: string): Promise<Chat[]> {
 }
 
 /**
- * Mark message as read
+ * Listen to a user's conversations from their `userChats` index (most recent activity first)
+ * Unread counts are not included; combine with listenToUnreadCounts.
+ * Returns unsubscribe function
  */
-export async function markMessageAsRead(chatId: string, messageId: string): Promise<void> {
-  const messageRef = ref(database, `chats/${chatId}/messages/${messageId}`);
-  await set(ref(database, `chats/${chatId}/messages/${messageId}/read`), true);
+export function listenToUserChats(
+  dailyId: string,
+  callback: (chats: ChatListItem[]) => void
+): () => void {
+  const userChatsRef = ref(database, `userChats/${dailyId}`);
+
+  onValue(userChatsRef, (snapshot) => {
+    const chats: ChatListItem[] = [];
+    snapshot.forEach((childSnapshot) => {
+      const entry = readUserChatEntry(childSnapshot, dailyId);
+      chats.push({
+        chatId: entry.chatId,
+        otherUserDailyId: entry.otherDailyId,
+        lastMessage: entry.lastMessage,
+        lastMessageTimestamp: entry.lastMessageTimestamp || entry.updatedAt
+      });
+    });
+
+    callback(chats.sort((a, b) => (b.lastMessageTimestamp || 0) - (a.lastMessageTimestamp || 0)));
+  }, (error) => {
+    console.error('Error listening to user chats:', error);
+    callback([]);
+  });
+
+  return () => off(userChatsRef);
+}
+
+/**
+ * Listen to a user's unread counters (`userUnread/{dailyId}`, keyed by chat ID)
+ * Returns unsubscribe function
+ */
+export function listenToUnreadCounts(
+  dailyId: string,
+  callback: (counts: Record<string, number>) => void
+): () => void {
+  const unreadRef = ref(database, `userUnread/${dailyId}`);
+
+  onValue(unreadRef, (snapshot) => {
+    const counts: Record<string, number> = {};
+    Object.entries((snapshot.val() ?? {}) as Record<string, unknown>).forEach(([chatId, count]) => {
+      counts[chatId] = typeof count === 'number' ? count : Number(count) || 0;
+    });
+    callback(counts);
+  });
+
+  return () => off(unreadRef);
+}
+
+/**
+ * Set (or with null, remove) the current participant's reaction to a message
+ * database.rules.json only accepts it from the owner of `reactorDailyId`
+ */
+export async function setMessageReaction(
+  chatId: string,
+  messageId: string,
+  reactorDailyId: string,
+  emoji: ReactionEmoji | null
+): Promise<void> {
+  const reactionRef = ref(database, `chats/${chatId}/messages/${messageId}/reactions/${reactorDailyId}`);
+  await (emoji ? set(reactionRef, emoji) : remove(reactionRef));
+}
+
+/**
+ * Mark every message up to `upToTimestamp` as seen by `dailyId`
+ * Stored as a single watermark per participant (database.rules.json only lets it move forward)
+ */
+export async function markChatSeen(chatId: string, dailyId: string, upToTimestamp: number): Promise<void> {
+  await set(ref(database, `chats/${chatId}/readReceipts/${dailyId}`), upToTimestamp);
+}
+
+/**
+ * Listen to how far a participant has read (0 if nothing yet)
+ * Returns unsubscribe function
+ */
+export function listenToReadReceipt(
+  chatId: string,
+  dailyId: string,
+  callback: (seenUpTo: number) => void
+): () => void {
+  const receiptRef = ref(database, `chats/${chatId}/readReceipts/${dailyId}`);
+
+  onValue(receiptRef, (snapshot) => {
+    callback(typeof snapshot.val() === 'number' ? snapshot.val() : 0);
+  });
+
+  return () => off(receiptRef);
+}
+
+/**
+ * Set or clear the typing flag for a participant
+ * The flag is removed automatically if the connection drops
+ */
+export async function setTypingStatus(chatId: string, dailyId: string, isTyping: boolean): Promise<void> {
+  const typingRef = ref(database, `chats/${chatId}/typing/${dailyId}`);
+
+  if (isTyping) {
+    await onDisconnect(typingRef).remove();
+    await set(typingRef, Date.now());
+  } else {
+    await remove(typingRef);
+    await onDisconnect(typingRef).cancel();
+  }
+}
+
+/**
+ * Listen to a participant's typing flag
+ * Callback receives when the flag was last refreshed (null when not typing)
+ * Returns unsubscribe function
+ */
+export function listenToTyping(
+  chatId: string,
+  dailyId: string,
+  callback: (typingSince: number | null) => void
+): () => void {
+  const typingRef = ref(database, `chats/${chatId}/typing/${dailyId}`);
+
+  onValue(typingRef, (snapshot) => {
+    callback(typeof snapshot.val() === 'number' ? snapshot.val() : null);
+  });
+
+  return () => off(typingRef);
 }
 
 /**
  * Delete a chat (admin only or for testing)
  */
 export async function deleteChat(chatId: string): Promise<void> {
-  const chatRef = ref(database, `chats/${chatId}`);
-  await set(chatRef, null);
+  const updates: Record<string, null> = { [`chats/${chatId}`]: null };
+  chatId.split('_').forEach((dailyId) => {
+    updates[`userChats/${dailyId}/${chatId}`] = null;
+  });
+  await update(ref(database), updates);
 }
 
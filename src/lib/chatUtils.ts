@@ -3,6 +3,9 @@
  * Helper functions for managing one-to-one chat data
  */
 
+import type { Chat, Message, MessageReply, UserChatEntry } from '@/types/chat';
+import { MESSAGE_EDIT_WINDOW_MS, REPLY_EXCERPT_LENGTH } from '@/config/messaging';
+
 /**
  * Generate a unique chat ID from two daily IDs
  * IDs are sorted alphabetically to ensure consistency
@@ -29,6 +32,52 @@ export function getOtherParticipantId(chatId: string, myDailyId: string): string
   return id1 === myDailyId ? id2 : id1;
 }
 
+/**
+ * Inbox index entry for one participant of a chat
+ */
+export function createUserChatEntry(chat: Chat, myDailyId: string): UserChatEntry {
+  return {
+    otherDailyId: getOtherParticipantId(chat.chatId, myDailyId),
+    ...(chat.lastMessage !== undefined ? { lastMessage: chat.lastMessage } : {}),
+    ...(chat.lastMessageTimestamp !== undefined ? { lastMessageTimestamp: chat.lastMessageTimestamp } : {}),
+    createdAt: chat.createdAt,
+    updatedAt: chat.updatedAt
+  };
+}
+
+/**
+ * Multi-path update of a chat's metadata and both participants' `userChats` entries
+ */
+export function buildChatMetadataUpdates(
+  chatId: string,
+  fields: Partial<Pick<Chat, 'lastMessage' | 'lastMessageTimestamp' | 'updatedAt'>>
+): Record<string, unknown> {
+  const updates: Record<string, unknown> = {};
+
+  Object.entries(fields).forEach(([field, value]) => {
+    updates[`chats/${chatId}/${field}`] = value;
+    chatId.split('_').forEach((dailyId) => {
+      updates[`userChats/${dailyId}/${chatId}/${field}`] = value;
+    });
+  });
+
+  return updates;
+}
+
+/**
+ * Generate a unique story ID from chat and message IDs
+ */
+export function generateStoryId(chatId: string, messageId: string): string {
+  return `${chatId}_${messageId}`;
+}
+
+/**
+ * Check whether a message can still be edited or unsent by its sender
+ */
+export function isWithinEditWindow(message: Pick<Message, 'timestamp'>, now: number = Date.now()): boolean {
+  return now - message.timestamp <= MESSAGE_EDIT_WINDOW_MS;
+}
+
 /**
  * Validate that a chat has exactly 2 participants (one-to-one only)
  */
@@ -83,3 +132,261 @@ export function isValidMessage(text: string): boolean {
   return trimmed.length > 0 && trimmed.length <= 1000;
 }
 
+/**
+ * Build the quote snapshot stored on a reply
+ */
+export function createMessageReply(message: Pick<Message, 'id' | 'senderId' | 'text'>): MessageReply {
+  const text = message.text.replace(/\s+/g, ' ').trim();
+  return {
+    messageId: message.id,
+    senderId: message.senderId,
+    excerpt: text.length > REPLY_EXCERPT_LENGTH ? `${text.slice(0, REPLY_EXCERPT_LENGTH - 1)}…` : text
+  };
+}
+
+/**
+ * Check the shape of a client-generated message ID (a Realtime Database push key)
+ */
+export function isValidClientMessageId(id: string): boolean {
+  return /^[-0-9A-Za-z_]{20}$/.test(id);
+}
+
+/**
+ * Result of planning a midnight cleanup of the realtime chats tree
+ */
+export interface ExpiredChatCleanupPlan {
+  updates: Record<string, unknown>; // Multi-path update (null values delete)
+  deletedChats: number;
+  deletedMessages: number;
+  deletedUnreadEntries: number;
+  deletedInboxEntries: number;
+}
+
+/**
+ * Result of planning the cleanup of one page of the chats tree
+ */
+export interface ExpiredChatPagePlan {
+  updates: Record<string, unknown>;
+  deletedChats: number;
+  deletedMessages: number;
+  survivingChatIds: Set<string>;
+  deletedChatIds: Set<string>;
+  refreshedPreviews: Map<string, ChatPreview>; // Chats that lost their older messages
+}
+
+export type ChatPreview = Pick<Chat, 'lastMessage' | 'lastMessageTimestamp' | 'updatedAt'>;
+
+interface StoredMessage {
+  text?: string;
+  timestamp?: number;
+}
+
+export interface StoredChat {
+  createdAt?: number;
+  messages?: Record<string, StoredMessage>;
+}
+
+export type PerUserChatData = Record<string, Record<string, unknown> | null> | null;
+
+/**
+ * Delete `{root}/{dailyId}/{chatId}` entries whose chat no longer exists
+ * Returns how many entries were removed
+ */
+export function planStaleChatEntryCleanup(
+  root: string,
+  data: PerUserChatData,
+  survivingChatIds: Set<string>,
+  updates: Record<string, unknown>
+): number {
+  let deleted = 0;
+
+  Object.entries(data ?? {}).forEach(([dailyId, entries]) => {
+    const chatIds = Object.keys(entries ?? {});
+    const staleChatIds = chatIds.filter((chatId) => !survivingChatIds.has(chatId));
+
+    if (staleChatIds.length === 0) {
+      return;
+    }
+
+    if (staleChatIds.length === chatIds.length) {
+      updates[`${root}/${dailyId}`] = null;
+    } else {
+      staleChatIds.forEach((chatId) => {
+        updates[`${root}/${dailyId}/${chatId}`] = null;
+      });
+    }
+    deleted += staleChatIds.length;
+  });
+
+  return deleted;
+}
+
+/**
+ * Copy refreshed chat previews into the matching `userChats` entries
+ */
+export function planInboxPreviewRefresh(
+  userChatsData: PerUserChatData,
+  refreshedPreviews: Map<string, ChatPreview>,
+  updates: Record<string, unknown>
+): void {
+  Object.entries(userChatsData ?? {}).forEach(([dailyId, entries]) => {
+    Object.keys(entries ?? {}).forEach((chatId) => {
+      Object.entries(refreshedPreviews.get(chatId) ?? {}).forEach(([field, value]) => {
+        updates[`userChats/${dailyId}/${chatId}/${field}`] = value;
+      });
+    });
+  });
+}
+
+/**
+ * Plan which chats and messages in a page of the chats tree expired before midnight
+ * Unread counters and inbox entries are planned separately once every page is known.
+ */
+export function planExpiredChatPageCleanup(
+  chatsData: Record<string, StoredChat | null> | null,
+  midnight: number,
+  now: number = Date.now()
+): ExpiredChatPagePlan {
+  const updates: Record<string, unknown> = {};
+  const survivingChatIds = new Set<string>();
+  const deletedChatIds = new Set<string>();
+  const refreshedPreviews = new Map<string, ChatPreview>();
+  let deletedMessages = 0;
+
+  Object.entries(chatsData ?? {}).forEach(([chatId, chat]) => {
+    const messageEntries = Object.entries(chat?.messages ?? {});
+
+    if (messageEntries.length === 0) {
+      // Chats opened since midnight are still in use, even before anyone writes
+      if ((chat?.createdAt ?? 0) >= midnight) {
+        survivingChatIds.add(chatId);
+        return;
+      }
+
+      updates[`chats/${chatId}`] = null;
+      deletedChatIds.add(chatId);
+      return;
+    }
+
+    const freshMessages = messageEntries.filter(([, message]) => (message?.timestamp ?? 0) >= midnight);
+
+    if (freshMessages.length === 0) {
+      updates[`chats/${chatId}`] = null;
+      deletedChatIds.add(chatId);
+      deletedMessages += messageEntries.length;
+      return;
+    }
+
+    survivingChatIds.add(chatId);
+
+    messageEntries.forEach(([messageId, message]) => {
+      if ((message?.timestamp ?? 0) < midnight) {
+        updates[`chats/${chatId}/messages/${messageId}`] = null;
+        deletedMessages += 1;
+      }
+    });
+
+    const latestMessage = freshMessages
+      .map(([, message]) => message)
+      .sort((a, b) => (a.timestamp || 0) - (b.timestamp || 0))
+      .pop();
+
+    if (latestMessage && freshMessages.length !== messageEntries.length) {
+      const preview = {
+        lastMessage: (latestMessage.text || '').slice(0, 100),
+        lastMessageTimestamp: latestMessage.timestamp || now,
+        updatedAt: now
+      };
+      refreshedPreviews.set(chatId, preview);
+      Object.entries(preview).forEach(([field, value]) => {
+        updates[`chats/${chatId}/${field}`] = value;
+      });
+    }
+  });
+
+  return {
+    updates,
+    deletedChats: deletedChatIds.size,
+    deletedMessages,
+    survivingChatIds,
+    deletedChatIds,
+    refreshedPreviews
+  };
+}
+
+/**
+ * Plan which chats, messages, unread counters and inbox entries expired before midnight
+ * Pure function for callers that already hold the whole tree (the admin panel)
+ */
+export function planExpiredChatCleanup(
+  chatsData: Record<string, StoredChat | null> | null,
+  unreadData: PerUserChatData,
+  userChatsData: PerUserChatData,
+  midnight: number,
+  now: number = Date.now()
+): ExpiredChatCleanupPlan {
+  const { updates, deletedChats, deletedMessages, survivingChatIds, refreshedPreviews } =
+    planExpiredChatPageCleanup(chatsData, midnight, now);
+
+  // Inbox entries mirror the refreshed preview
+  planInboxPreviewRefresh(userChatsData, refreshedPreviews, updates);
+
+  // Drop unread counters and inbox entries that point at chats which no longer exist
+  const deletedUnreadEntries = planStaleChatEntryCleanup('userUnread', unreadData, survivingChatIds, updates);
+  const deletedInboxEntries = planStaleChatEntryCleanup('userChats', userChatsData, survivingChatIds, updates);
+
+  return { updates, deletedChats, deletedMessages, deletedUnreadEntries, deletedInboxEntries };
+}
+
+/**
+ * Order messages by timestamp, then push key (push keys are chronological)
+ */
+function compareMessages(a: Message, b: Message): number {
+  return a.timestamp - b.timestamp || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+}
+
+function isSameMessage(a: Message, b: Message): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<keyof Message>;
+  return [...keys].every((key) => a[key] === b[key]);
+}
+
+/**
+ * Insert or replace a message in a sorted list
+ * Returns the same array when nothing changed so React can skip the render
+ */
+export function upsertMessage(messages: Message[], message: Message): Message[] {
+  const existingIndex = messages.findIndex((entry) => entry.id === message.id);
+
+  if (existingIndex !== -1) {
+    if (isSameMessage(messages[existingIndex], message)) {
+      return messages;
+    }
+    const next = [...messages];
+    next[existingIndex] = message;
+    return next;
+  }
+
+  // New messages almost always belong at the end, so search from the back
+  let insertAt = messages.length;
+  while (insertAt > 0 && compareMessages(messages[insertAt - 1], message) > 0) {
+    insertAt -= 1;
+  }
+
+  return [...messages.slice(0, insertAt), message, ...messages.slice(insertAt)];
+}
+
+/**
+ * Merge a page of older messages into a sorted list (skipping ones already loaded)
+ */
+export function mergeMessages(messages: Message[], page: Message[]): Message[] {
+  return page.reduce(upsertMessage, messages);
+}
+
+/**
+ * Remove a message from a list by ID
+ */
+export function removeMessage(messages: Message[], messageId: string): Message[] {
+  return messages.some((entry) => entry.id === messageId)
+    ? messages.filter((entry) => entry.id !== messageId)
+    : messages;
+}
@@ -0,0 +1,37 @@
+/**
+ * Connection Utility Functions
+ * Helpers for connection IDs, tokens and the mutual-favorite lock (used by both the client and the server)
+ */
+
+import type { Connection } from '@/types/favorites';
+
+/**
+ * Generate a unique connection ID from two user IDs
+ */
+export function generateConnectionId(userId1: string, userId2: string): string {
+  const sorted = [userId1, userId2].sort();
+  return `${sorted[0]}_${sorted[1]}`;
+}
+
+/**
+ * Generate a unique connection token (8-character alphanumeric)
+ */
+export function generateConnectionToken(): string {
+  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+  let token = '';
+  for (let i = 0; i < 8; i++) {
+    token += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return token;
+}
+
+/**
+ * Check if a connection is currently locked (24-hour lockout)
+ */
+export function isConnectionLocked(connection: Connection, now: number = Date.now()): boolean {
+  if (!connection.isLocked || !connection.lockExpiresAt) {
+    return false;
+  }
+
+  return now < connection.lockExpiresAt;
+}
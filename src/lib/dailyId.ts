@@ -1,48 +1,91 @@
 /**
  * Daily ID Generation and Management Utilities
- * Handles anonymous 8-digit numeric IDs that reset daily at midnight PKT
+ * Handles anonymous 8-digit numeric IDs (7 random digits + a Damm check digit)
+ * that reset daily at the configured reset time (midnight PKT by default,
+ * see src/config/resetClock.ts)
  */
 
+import {
+  getCurrentResetStart,
+  getNextResetStart,
+  getResetDateString,
+  getPreviousResetDateString
+} from './resetClock';
+
+// 7 random digits followed by a Damm check digit
+const DAILY_ID_BASE_MIN = 1000000;
+const DAILY_ID_BASE_MAX = 9999999;
+
+// Damm quasigroup table: catches every single-digit typo and every
+// adjacent transposition, which covers most misheard or mistyped IDs
+const DAMM_TABLE: ReadonlyArray<ReadonlyArray<number>> = [
+  [0, 3, 1, 7, 5, 9, 8, 6, 4, 2],
+  [7, 0, 9, 2, 1, 5, 4, 8, 6, 3],
+  [4, 2, 0, 6, 8, 7, 1, 3, 5, 9],
+  [1, 7, 5, 0, 9, 8, 3, 4, 2, 6],
+  [6, 1, 2, 3, 0, 4, 5, 9, 7, 8],
+  [3, 6, 7, 4, 2, 0, 9, 5, 8, 1],
+  [5, 8, 6, 9, 7, 2, 0, 1, 3, 4],
+  [8, 9, 4, 5, 3, 6, 2, 0, 1, 7],
+  [9, 4, 3, 8, 6, 1, 7, 2, 0, 5],
+  [2, 5, 8, 1, 4, 3, 6, 7, 9, 0]
+];
+
+/**
+ * Run the Damm algorithm over a digit string (0 means the check passes)
+ */
+function dammInterim(digits: string): number {
+  let interim = 0;
+  for (const digit of digits) {
+    interim = DAMM_TABLE[interim][Number(digit)];
+  }
+  return interim;
+}
+
+/**
+ * Uniform random integer in [0, range) from the Web Crypto CSPRNG
+ * Uses rejection sampling so no value is more likely than another
+ */
+function secureRandomInt(range: number): number {
+  const buffer = new Uint32Array(1);
+  const limit = Math.floor(0x100000000 / range) * range;
+
+  do {
+    globalThis.crypto.getRandomValues(buffer);
+  } while (buffer[0] >= limit);
+
+  return buffer[0] % range;
+}
+
 /**
  * Generate a random 8-digit numeric ID
+ * The last digit is a Damm check digit over the first seven
  */
 export function generateDailyId(): string {
-  const min = 10000000;
-  const max = 99999999;
-  const id = Math.floor(Math.random() * (max - min + 1)) + min;
-  return id.toString();
+  const base = (DAILY_ID_BASE_MIN + secureRandomInt(DAILY_ID_BASE_MAX - DAILY_ID_BASE_MIN + 1)).toString();
+  return `${base}${dammInterim(base)}`;
 }
 
 /**
- * Get Pakistan timezone offset (PKT = UTC+5)
+ * Check that an ID is 8 digits with a valid check digit
+ * Catches single-digit typos and swapped neighbours before any lookup
  */
-function getPakistanTime(): Date {
-  const now = new Date();
-  const pktOffset = 5 * 60; // 5 hours in minutes
-  const utcTime = now.getTime() + (now.getTimezoneOffset() * 60000);
-  const pktTime = new Date(utcTime + (pktOffset * 60000));
-  return pktTime;
+export function validateDailyId(id: string): boolean {
+  return /^\d{8}$/.test(id) && dammInterim(id) === 0;
 }
 
 /**
- * Get the start of the current day (midnight) in PKT
+ * Get the start of the current day (the last reset boundary)
  */
 export function getTodayMidnight(): Date {
-  const pktNow = getPakistanTime();
-  const midnight = new Date(pktNow.getFullYear(), pktNow.getMonth(), pktNow.getDate(), 0, 0, 0, 0);
-  const pktOffset = 5 * 60;
-  const localOffset = new Date().getTimezoneOffset();
-  const adjustment = (pktOffset + localOffset) * 60000;
-  return new Date(midnight.getTime() - adjustment);
+  return getCurrentResetStart();
 }
 
 /**
- * Get the start of the next day (midnight) in PKT
+ * Get the start of the next day (the next reset boundary)
  */
 export function getNextMidnight(): Date {
-  const today = getTodayMidnight();
-  const tomorrow = new Date(today.getTime() + (24 * 60 * 60 * 1000));
-  return tomorrow;
+  return getNextResetStart();
 }
 
 /**
@@ -62,14 +105,15 @@ export function isIdExpired(createdAt: Date): boolean {
 
 /**
  * Format daily ID for display with spacing
+ * IDs that fail the check digit are shown as-is so typos stay visible
  */
 export function formatDailyId(id: string): string {
-  if (id.length !== 8) return id;
+  if (!validateDailyId(id)) return id;
   return `${id.slice(0, 4)} ${id.slice(4)}`;
 }
 
 /**
- * Calculate time until next midnight reset (PKT)
+ * Calculate time until the next daily reset
  */
 export function getTimeUntilMidnight(): {
   hours: number;
@@ -89,13 +133,15 @@ export function getTimeUntilMidnight(): {
 }
 
 /**
- * Get today's date string in PKT timezone (YYYY-MM-DD format)
+ * Get today's date string in the reset timezone (YYYY-MM-DD format)
  */
 export function getTodayDateString(): string {
-  const pktTime = getPakistanTime();
-  const year = pktTime.getFullYear();
-  const month = String(pktTime.getMonth() + 1).padStart(2, '0');
-  const day = String(pktTime.getDate()).padStart(2, '0');
-  
-  return `${year}-${month}-${day}`;
+  return getResetDateString();
+}
+
+/**
+ * Get yesterday's date string in the reset timezone (YYYY-MM-DD format)
+ */
+export function getYesterdayDateString(): string {
+  return getPreviousResetDateString();
 }
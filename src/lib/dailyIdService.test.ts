@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// In-memory stand-in for the documents touched by the reservation transaction
+const store = vi.hoisted(() => new Map<string, Record<string, unknown>>());
+
+vi.mock('./firebase', () => ({ db: {} }));
+vi.mock('./moderationService', () => ({ getActiveBan: vi.fn(async () => null) }));
+vi.mock('firebase/firestore', () => ({
+  doc: (_db: unknown, collection: string, id: string) => ({ path: `${collection}/${id}` }),
+  getDoc: async ({ path }: { path: string }) => ({
+    exists: () => store.has(path),
+    data: () => store.get(path)
+  }),
+  serverTimestamp: () => 'SERVER_TIMESTAMP',
+  runTransaction: async (_db: unknown, update: (transaction: unknown) => Promise<unknown>) =>
+    update({
+      get: async ({ path }: { path: string }) => ({
+        exists: () => store.has(path),
+        data: () => store.get(path)
+      }),
+      set: ({ path }: { path: string }, data: Record<string, unknown>, options?: { merge?: boolean }) => {
+        store.set(path, options?.merge ? { ...store.get(path), ...data } : data);
+      }
+    })
+}));
+vi.mock('./dailyId', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./dailyId')>()),
+  generateDailyId: vi.fn()
+}));
+
+import { generateDailyId, validateDailyId } from './dailyId';
+import { createDailyId, DailyIdSpaceExhaustedError, getOrCreateDailyId } from './dailyIdService';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function reserveExisting(dailyId: string, userId: string, expiresAt: number) {
+  store.set(`dailyIds/${dailyId}`, { dailyId, userId, expiresAt: { toDate: () => new Date(expiresAt) } });
+}
+
+describe('createDailyId', () => {
+  beforeEach(() => {
+    store.clear();
+    vi.mocked(generateDailyId).mockReset();
+  });
+
+  it('reserves a free ID for the user and records it on their profile', async () => {
+    vi.mocked(generateDailyId).mockReturnValueOnce('11111111');
+
+    await expect(createDailyId('alice')).resolves.toBe('11111111');
+    expect(store.get('dailyIds/11111111')).toMatchObject({
+      dailyId: '11111111',
+      userId: 'alice',
+      createdAt: 'SERVER_TIMESTAMP'
+    });
+    expect(store.get('users/alice')).toMatchObject({ dailyId: '11111111' });
+  });
+
+  it('tries another ID when the first one is held by someone else today', async () => {
+    reserveExisting('11111111', 'bob', Date.now() + HOUR_MS);
+    vi.mocked(generateDailyId).mockReturnValueOnce('11111111').mockReturnValueOnce('22222222');
+
+    await expect(createDailyId('alice')).resolves.toBe('22222222');
+    expect(store.get('dailyIds/11111111')).toMatchObject({ userId: 'bob' });
+    expect(store.get('dailyIds/22222222')).toMatchObject({ userId: 'alice' });
+  });
+
+  it('reuses an expired reservation left over before the reset job runs', async () => {
+    reserveExisting('11111111', 'bob', Date.now() - HOUR_MS);
+    vi.mocked(generateDailyId).mockReturnValueOnce('11111111');
+
+    await expect(createDailyId('alice')).resolves.toBe('11111111');
+    expect(store.get('dailyIds/11111111')).toMatchObject({ userId: 'alice' });
+  });
+
+  it('never hands out the support ID', async () => {
+    vi.mocked(generateDailyId).mockReturnValueOnce('ADMINHELP').mockReturnValueOnce('33333333');
+
+    await expect(createDailyId('alice')).resolves.toBe('33333333');
+    expect(store.has('dailyIds/ADMINHELP')).toBe(false);
+  });
+
+  it('throws DailyIdSpaceExhaustedError after MAX_RESERVE_ATTEMPTS collisions', async () => {
+    reserveExisting('11111111', 'bob', Date.now() + HOUR_MS);
+    vi.mocked(generateDailyId).mockReturnValue('11111111');
+
+    await expect(createDailyId('alice')).rejects.toBeInstanceOf(DailyIdSpaceExhaustedError);
+    expect(generateDailyId).toHaveBeenCalledTimes(10);
+    expect(store.has('users/alice')).toBe(false);
+  });
+});
+
+describe('getOrCreateDailyId', () => {
+  // Exactly one check digit completes a base, so the other nine make pre-check-digit IDs
+  const digits = '0123456789'.split('');
+  const validId = digits.map((digit) => `1234567${digit}`).find(validateDailyId)!;
+  const legacyId = digits.map((digit) => `1234567${digit}`).find((id) => !validateDailyId(id))!;
+
+  function storeUserDailyId(dailyId: string) {
+    const now = new Date();
+    store.set('users/alice', {
+      dailyId,
+      dailyIdCreatedAt: { toDate: () => now },
+      dailyIdExpiresAt: { toDate: () => new Date(now.getTime() + HOUR_MS) }
+    });
+  }
+
+  beforeEach(() => {
+    store.clear();
+    vi.mocked(generateDailyId).mockReset();
+  });
+
+  it("keeps today's ID", async () => {
+    storeUserDailyId(validId);
+
+    await expect(getOrCreateDailyId('alice')).resolves.toBe(validId);
+    expect(generateDailyId).not.toHaveBeenCalled();
+  });
+
+  it('replaces an ID issued before check digits with a valid one', async () => {
+    storeUserDailyId(legacyId);
+    vi.mocked(generateDailyId).mockReturnValueOnce(validId);
+
+    await expect(getOrCreateDailyId('alice')).resolves.toBe(validId);
+    expect(store.get('users/alice')).toMatchObject({ dailyId: validId });
+  });
+});
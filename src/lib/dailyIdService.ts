@@ -3,9 +3,11 @@
  * Manages the lifecycle of daily anonymous IDs
  */
 
-import { doc, getDoc, setDoc, query, collection, where, getDocs } from 'firebase/firestore';
-import { generateDailyId, getTodayMidnight, getNextMidnight, isIdExpired } from './dailyId';
+import { doc, getDoc, runTransaction, serverTimestamp } from 'firebase/firestore';
+import { generateDailyId, getTodayMidnight, getNextMidnight, isIdExpired, validateDailyId } from './dailyId';
 import { db } from './firebase';
+import { getActiveBan } from './moderationService';
+import { banRestricts } from './bans';
 import {
   ADMIN_SUPPORT_DAILY_ID,
   ADMIN_SUPPORT_USER_ID,
@@ -20,46 +22,73 @@ export interface DailyIdRecord {
   expiresAt: Date;
 }
 
+// Fresh random IDs to try before declaring today's ID space saturated
+const MAX_RESERVE_ATTEMPTS = 10;
+
 /**
- * Check if a daily ID already exists (collision detection)
+ * Thrown when no free daily ID could be reserved after MAX_RESERVE_ATTEMPTS tries
  */
-async function isDailyIdTaken(dailyId: string): Promise<boolean> {
-  try {
-    const todayMidnight = getTodayMidnight();
-    const dailyIdsRef = collection(db, 'dailyIds');
-    const q = query(
-      dailyIdsRef,
-      where('dailyId', '==', dailyId),
-      where('expiresAt', '>', todayMidnight)
-    );
-    
-    const snapshot = await getDocs(q);
-    return !snapshot.empty;
-  } catch (error) {
-    console.error('Error checking ID collision:', error);
-    return false;
+export class DailyIdSpaceExhaustedError extends Error {
+  constructor(attempts: number) {
+    super(`Could not reserve a unique daily ID after ${attempts} attempts. Please try again in a moment.`);
+    this.name = 'DailyIdSpaceExhaustedError';
   }
 }
 
 /**
- * Generate a unique daily ID (with collision checking)
+ * Thrown when a suspended user asks for a daily ID
  */
-async function generateUniqueDailyId(maxAttempts = 5): Promise<string> {
-  for (let i = 0; i < maxAttempts; i++) {
-    const id = generateDailyId();
-    if (isAdminSupportDailyId(id)) {
-      continue;
-    }
-    const isTaken = await isDailyIdTaken(id);
-    
-    if (!isTaken) {
-      return id;
-    }
+export class AccountSuspendedError extends Error {
+  readonly expiresAt: number;
+
+  constructor(expiresAt: number) {
+    super(`Your account is suspended until ${new Date(expiresAt).toLocaleString()}.`);
+    this.name = 'AccountSuspendedError';
+    this.expiresAt = expiresAt;
   }
-  
-  // Fallback: append timestamp if all attempts fail
-  const fallbackId = generateDailyId();
-  return fallbackId;
+}
+
+/**
+ * Reserve a daily ID for a user with a create-if-absent transaction
+ * Returns false if another user holds the ID today
+ */
+async function tryReserveDailyId(
+  dailyId: string,
+  userId: string,
+  now: Date,
+  expiresAt: Date
+): Promise<boolean> {
+  const dailyIdDocRef = doc(db, 'dailyIds', dailyId);
+  const userDocRef = doc(db, 'users', userId);
+
+  return runTransaction(db, async (transaction) => {
+    const dailyIdDoc = await transaction.get(dailyIdDocRef);
+
+    if (dailyIdDoc.exists()) {
+      const existingExpiry: Date | undefined = dailyIdDoc.data().expiresAt?.toDate?.();
+      // Expired leftovers (before the reset job runs) may be reused
+      if (!existingExpiry || existingExpiry > now) {
+        return false;
+      }
+    }
+
+    // Store in dailyIds collection (the reservation) and on the user in one write
+    // firestore.rules only accepts the server's clock for createdAt
+    transaction.set(dailyIdDocRef, {
+      dailyId,
+      userId,
+      createdAt: serverTimestamp(),
+      expiresAt
+    });
+    transaction.set(userDocRef, {
+      dailyId,
+      dailyIdCreatedAt: now,
+      dailyIdExpiresAt: expiresAt,
+      lastUpdated: now
+    }, { merge: true });
+
+    return true;
+  });
 }
 
 /**
@@ -95,6 +124,12 @@ export async function getUserDailyId(userId: string): Promise<DailyIdRecord | nu
       return null;
     }
     
+    // IDs issued before check digits existed are rejected by every server route,
+    // so treat them as expired and issue a fresh one instead of waiting for the reset
+    if (!validateDailyId(data.dailyId)) {
+      return null;
+    }
+    
     return {
       dailyId: data.dailyId,
       userId: userId,
@@ -109,38 +144,29 @@ export async function getUserDailyId(userId: string): Promise<DailyIdRecord | nu
 
 /**
  * Create a new daily ID for a user
+ * Throws DailyIdSpaceExhaustedError when every attempt collides
  */
 export async function createDailyId(userId: string): Promise<string> {
   try {
-    // Generate unique ID
-    const dailyId = await generateUniqueDailyId();
-    
     const now = new Date();
     const expiresAt = getNextMidnight();
-    
-    // Store in users collection
-    const userDocRef = doc(db, 'users', userId);
-    await setDoc(userDocRef, {
-      dailyId,
-      dailyIdCreatedAt: now,
-      dailyIdExpiresAt: expiresAt,
-      lastUpdated: now
-    }, { merge: true });
-    
-    // Store in dailyIds collection for collision checking
-    const dailyIdDocRef = doc(db, 'dailyIds', dailyId);
-    await setDoc(dailyIdDocRef, {
-      dailyId,
-      userId,
-      createdAt: now,
-      expiresAt
-    });
-    
-    return dailyId;
+
+    for (let attempt = 0; attempt < MAX_RESERVE_ATTEMPTS; attempt++) {
+      const dailyId = generateDailyId();
+      if (isAdminSupportDailyId(dailyId)) {
+        continue;
+      }
+
+      if (await tryReserveDailyId(dailyId, userId, now, expiresAt)) {
+        return dailyId;
+      }
+    }
   } catch (error) {
     console.error('Error creating daily ID:', error);
     throw new Error('Failed to create daily ID');
   }
+
+  throw new DailyIdSpaceExhaustedError(MAX_RESERVE_ATTEMPTS);
 }
 
 /**
@@ -152,6 +178,12 @@ export async function getOrCreateDailyId(userId: string): Promise<string> {
     if (isAdminSupportUserId(userId)) {
       return ADMIN_SUPPORT_DAILY_ID;
     }
+    // Fully suspended users get no ID (also enforced by firestore.rules);
+    // chat-only and stories-only bans still get one
+    const ban = await getActiveBan(userId);
+    if (ban && banRestricts(ban, 'dailyId')) {
+      throw new AccountSuspendedError(ban.expiresAt);
+    }
     // Try to get existing ID
     const existingId = await getUserDailyId(userId);
     
@@ -176,6 +208,10 @@ export async function refreshDailyId(userId: string): Promise<string> {
     if (isAdminSupportUserId(userId)) {
       return ADMIN_SUPPORT_DAILY_ID;
     }
+    const ban = await getActiveBan(userId);
+    if (ban && banRestricts(ban, 'dailyId')) {
+      throw new AccountSuspendedError(ban.expiresAt);
+    }
     const newId = await createDailyId(userId);
     return newId;
   } catch (error) {
@@ -193,6 +229,10 @@ export async function getUserIdFromDailyId(dailyId: string): Promise<string | nu
     if (isAdminSupportDailyId(dailyId)) {
       return ADMIN_SUPPORT_USER_ID;
     }
+    // Mistyped IDs can never exist, so skip the lookup
+    if (!validateDailyId(dailyId)) {
+      return null;
+    }
     const dailyIdDocRef = doc(db, 'dailyIds', dailyId);
     const dailyIdDoc = await getDoc(dailyIdDocRef);
     
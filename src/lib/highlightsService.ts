@@ -24,6 +24,10 @@ import {
 } from 'firebase/firestore';
 import { db } from './firebase';
 import { getNextMidnight } from './dailyId';
+import { generateStoryId } from './chatUtils';
+import { getActiveBan } from './moderationService';
+import { notifyMutualHighlight } from './notificationsService';
+import { banRestricts } from './bans';
 import type {
   MessageHighlight,
   QueuedStory,
@@ -33,13 +37,6 @@ import type {
   UserHighlights
 } from '@/types/highlights';
 
-/**
- * Generate a unique story ID from chat and message IDs
- */
-export function generateStoryId(chatId: string, messageId: string): string {
-  return `${chatId}_${messageId}`;
-}
-
 /**
  * Get the highlights collection path for a user
  */
@@ -261,6 +258,16 @@ export async function addHighlight(
   }
   
   try {
+    // Banned users cannot highlight, so nothing of theirs reaches the story queue
+    // (also enforced by firestore.rules)
+    const ban = await getActiveBan(userId);
+    if (ban && banRestricts(ban, 'stories')) {
+      return {
+        success: false,
+        message: `Highlights are disabled for your account until ${new Date(ban.expiresAt).toLocaleString()}`
+      };
+    }
+
     const result = await runTransaction(db, async (transaction) => {
       // === PHASE 1: ALL READS ===
       const myHighlightRef = doc(db, 'highlights', userId, 'messages', messageId);
@@ -319,7 +326,7 @@ export async function addHighlight(
           status: 'pending',
           anonymized: true,
           locked: true,                          // Lock prevents unfavorite
-          lockExpiresAt,                         // Expires at midnight PKT
+          lockExpiresAt,                         // Expires at the next daily reset
           metadata: {
             user1Id: userId,
             user2Id: otherUserId,
@@ -349,6 +356,13 @@ export async function addHighlight(
       };
     });
     
+    if (result.mutualHighlight) {
+      const myDailyId = senderDailyId === otherUserDailyId ? recipientDailyId : senderDailyId;
+      notifyMutualHighlight(myDailyId, chatId, messageId).catch((err) =>
+        console.error('Error sending highlight notification:', err)
+      );
+    }
+    
     return result;
   } catch (error: any) {
     console.error('Error adding highlight:', error);
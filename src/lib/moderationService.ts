@@ -0,0 +1,289 @@
+/**
+ * Moderation Service
+ *
+ * Blocks (by Firebase UID, so they outlive daily IDs), the admin report queue,
+ * warnings and temporary bans. Blocks and reports are written by the server;
+ * admin actions are written from /trueadmin together with an audit entry.
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  onSnapshot,
+  orderBy,
+  query,
+  updateDoc,
+  writeBatch,
+} from 'firebase/firestore';
+import type { WriteBatch } from 'firebase/firestore';
+import { db } from './firebase';
+import { apiRequest } from './apiClient';
+import { isBanActive } from './bans';
+import type { BlockUserResponse } from '@/types/api';
+import { BAN_SCOPES, REPORT_REASONS } from '@/types/moderation';
+import type {
+  BanScope,
+  ModerationAction,
+  ModerationAuditEntry,
+  Report,
+  ReportReason,
+  UserBan,
+  UserWarning,
+} from '@/types/moderation';
+
+/**
+ * Listen to the UIDs a user has blocked
+ * Returns unsubscribe function
+ */
+export function listenToBlockedUserIds(
+  userId: string,
+  callback: (blockedUserIds: Set<string>) => void
+): () => void {
+  return onSnapshot(
+    collection(db, 'blocks', userId, 'blocked'),
+    (snapshot) => {
+      callback(new Set(snapshot.docs.map((docSnap) => docSnap.id)));
+    },
+    (error) => {
+      console.error('Error listening to blocked users:', error);
+    }
+  );
+}
+
+/**
+ * Get the UIDs to hide from a user when matching or listing online users:
+ * everyone they blocked and everyone who blocked them
+ */
+export async function getHiddenUserIds(userId: string): Promise<Set<string>> {
+  try {
+    const [blocked, blockedBy] = await Promise.all([
+      getDocs(collection(db, 'blocks', userId, 'blocked')),
+      getDocs(collection(db, 'blocks', userId, 'blockedBy'))
+    ]);
+    return new Set([...blocked.docs, ...blockedBy.docs].map((docSnap) => docSnap.id));
+  } catch (error) {
+    console.error('Error fetching hidden users:', error);
+    return new Set();
+  }
+}
+
+/**
+ * Listen to the UIDs hidden from a user (blocked in either direction)
+ * Returns unsubscribe function
+ */
+export function listenToHiddenUserIds(
+  userId: string,
+  callback: (hiddenUserIds: Set<string>) => void
+): () => void {
+  let blocked = new Set<string>();
+  let blockedBy = new Set<string>();
+  const emit = () => callback(new Set([...blocked, ...blockedBy]));
+
+  const unsubscribeBlocked = listenToBlockedUserIds(userId, (userIds) => {
+    blocked = userIds;
+    emit();
+  });
+  const unsubscribeBlockedBy = onSnapshot(
+    collection(db, 'blocks', userId, 'blockedBy'),
+    (snapshot) => {
+      blockedBy = new Set(snapshot.docs.map((docSnap) => docSnap.id));
+      emit();
+    },
+    (error) => {
+      console.error('Error listening to users who blocked you:', error);
+    }
+  );
+
+  return () => {
+    unsubscribeBlocked();
+    unsubscribeBlockedBy();
+  };
+}
+
+/**
+ * Block the other participant of a chat, optionally filing a report
+ */
+export async function blockUser(
+  chatId: string,
+  myDailyId: string,
+  otherDailyId: string,
+  report?: { reason: ReportReason; details?: string }
+): Promise<{ success: boolean; message: string }> {
+  const result = await apiRequest<BlockUserResponse>(`/api/chats/${encodeURIComponent(chatId)}/block`, {
+    body: { myDailyId, otherDailyId, report }
+  });
+
+  if (!result.success) {
+    return { success: false, message: result.message };
+  }
+
+  return {
+    success: true,
+    message: result.reportId
+      ? 'Blocked and reported. Our team will review the conversation.'
+      : 'Blocked. They can no longer message you.'
+  };
+}
+
+/**
+ * Get reports awaiting review (admin only)
+ */
+export async function getOpenReports(): Promise<Report[]> {
+  try {
+    // Simple query - no composite index needed
+    const reportsQuery = query(collection(db, 'reports'), orderBy('createdAt', 'desc'));
+    const snapshot = await getDocs(reportsQuery);
+
+    // Filter for open status client-side
+    return snapshot.docs
+      .map((docSnap) => ({ ...docSnap.data(), reportId: docSnap.id } as Report))
+      .filter((report) => report.status === 'open');
+  } catch (error) {
+    console.error('Error fetching reports:', error);
+    return [];
+  }
+}
+
+/**
+ * Write an audit entry alongside a moderation change
+ */
+function addAuditEntry(batch: WriteBatch, entry: Omit<ModerationAuditEntry, 'createdAt'>): void {
+  batch.set(doc(collection(db, 'moderationAudit')), { ...entry, createdAt: Date.now() });
+}
+
+/**
+ * Close a report with an action (admin only)
+ * The report update, the action itself and its audit entry are written atomically
+ */
+export async function applyReportAction(
+  report: Report,
+  action: ModerationAction,
+  adminEmail: string,
+  options: { note?: string; banUntil?: Date; banScope?: BanScope } = {}
+): Promise<{ success: boolean; message: string }> {
+  const note = options.note?.trim();
+  const banScope = options.banScope ?? 'full';
+  const now = Date.now();
+
+  if (action === 'ban' && (!options.banUntil || options.banUntil.getTime() <= now)) {
+    return { success: false, message: 'Pick a ban end date in the future' };
+  }
+
+  try {
+    const batch = writeBatch(db);
+
+    batch.update(doc(db, 'reports', report.reportId), {
+      status: action === 'dismiss' ? 'dismissed' : 'resolved',
+      action,
+      resolvedAt: now,
+      resolvedBy: adminEmail
+    });
+
+    if (action === 'warn') {
+      const warning: UserWarning = {
+        userId: report.reportedUserId,
+        message: note || `We received a report about your behaviour (${REPORT_REASONS[report.reason].toLowerCase()}). Please keep GhostMate respectful.`,
+        reportId: report.reportId,
+        issuedAt: now,
+        issuedBy: adminEmail
+      };
+      batch.set(doc(db, 'warnings', report.reportedUserId), warning);
+    }
+
+    if (action === 'ban' && options.banUntil) {
+      const ban: UserBan = {
+        userId: report.reportedUserId,
+        reason: note || REPORT_REASONS[report.reason],
+        scope: banScope,
+        expiresAt: options.banUntil.getTime(),
+        createdAt: now,
+        createdBy: adminEmail,
+        reportId: report.reportId
+      };
+      batch.set(doc(db, 'bans', report.reportedUserId), ban);
+    }
+
+    addAuditEntry(batch, {
+      action,
+      adminEmail,
+      targetUserId: report.reportedUserId,
+      reportId: report.reportId,
+      ...(note ? { note } : {}),
+      ...(action === 'ban' && options.banUntil ? { banExpiresAt: options.banUntil.getTime(), banScope } : {})
+    });
+
+    await batch.commit();
+
+    const messages: Record<ModerationAction, string> = {
+      warn: 'Warning sent',
+      ban: `${BAN_SCOPES[banScope]} until ${options.banUntil?.toLocaleDateString()}`,
+      dismiss: 'Report dismissed'
+    };
+    return { success: true, message: messages[action] };
+  } catch (error) {
+    console.error('Error applying report action:', error);
+    return { success: false, message: 'Failed to apply moderation action' };
+  }
+}
+
+/**
+ * Get the active ban for a user (null if none or expired)
+ */
+export async function getActiveBan(userId: string): Promise<UserBan | null> {
+  const banDoc = await getDoc(doc(db, 'bans', userId));
+  if (!banDoc.exists()) {
+    return null;
+  }
+
+  const ban = banDoc.data() as UserBan;
+  return isBanActive(ban) ? ban : null;
+}
+
+/**
+ * Listen to the user's ban (null if none or expired)
+ * Returns unsubscribe function
+ */
+export function listenToActiveBan(
+  userId: string,
+  callback: (ban: UserBan | null) => void
+): () => void {
+  return onSnapshot(
+    doc(db, 'bans', userId),
+    (snapshot) => {
+      const ban = snapshot.exists() ? (snapshot.data() as UserBan) : null;
+      callback(isBanActive(ban) ? ban : null);
+    },
+    (error) => {
+      console.error('Error listening to bans:', error);
+    }
+  );
+}
+
+/**
+ * Listen to the user's unacknowledged warning
+ * Returns unsubscribe function
+ */
+export function listenToActiveWarning(
+  userId: string,
+  callback: (warning: UserWarning | null) => void
+): () => void {
+  return onSnapshot(
+    doc(db, 'warnings', userId),
+    (snapshot) => {
+      const warning = snapshot.exists() ? (snapshot.data() as UserWarning) : null;
+      callback(warning && !warning.acknowledgedAt ? warning : null);
+    },
+    (error) => {
+      console.error('Error listening to warnings:', error);
+    }
+  );
+}
+
+/**
+ * Mark the user's warning as read
+ */
+export async function acknowledgeWarning(userId: string): Promise<void> {
+  await updateDoc(doc(db, 'warnings', userId), { acknowledgedAt: Date.now() });
+}
@@ -0,0 +1,99 @@
+/**
+ * Notification Center Service (client)
+ *
+ * Reads today's entries from `notifications/{userId}/items` and marks them read.
+ * Entries are only written by the server, so events that happen on the client
+ * (mutual favorites and highlights, story reviews) are reported here for the
+ * server to verify and fan out to both sides.
+ */
+
+import {
+  collection,
+  doc,
+  onSnapshot,
+  orderBy,
+  query,
+  updateDoc,
+  where,
+  writeBatch,
+  type Unsubscribe
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { apiRequest } from './apiClient';
+import { getTodayMidnight } from './dailyId';
+import type { AppNotification } from '@/types/notifications';
+import type { NotifyResponse } from '@/types/api';
+
+/**
+ * Listen to today's notifications (newest first)
+ * Entries from before the reset are hidden even if the purge has not run yet.
+ */
+export function listenToNotifications(
+  userId: string,
+  callback: (notifications: AppNotification[]) => void
+): Unsubscribe {
+  const itemsQuery = query(
+    collection(db, 'notifications', userId, 'items'),
+    where('createdAt', '>=', getTodayMidnight().getTime()),
+    orderBy('createdAt', 'desc')
+  );
+
+  return onSnapshot(itemsQuery, (snapshot) => {
+    callback(snapshot.docs.map((item) => ({ ...(item.data() as AppNotification), id: item.id })));
+  }, (error) => {
+    console.error('Error listening to notifications:', error);
+    callback([]);
+  });
+}
+
+/**
+ * Mark one notification as read
+ */
+export async function markNotificationRead(userId: string, notificationId: string): Promise<void> {
+  try {
+    await updateDoc(doc(db, 'notifications', userId, 'items', notificationId), { read: true });
+  } catch (error) {
+    console.error('Error marking notification read:', error);
+  }
+}
+
+/**
+ * Mark several notifications as read in one batch
+ */
+export async function markNotificationsRead(userId: string, notificationIds: string[]): Promise<void> {
+  if (notificationIds.length === 0) return;
+
+  try {
+    const batch = writeBatch(db);
+    notificationIds.forEach((notificationId) => {
+      batch.update(doc(db, 'notifications', userId, 'items', notificationId), { read: true });
+    });
+    await batch.commit();
+  } catch (error) {
+    console.error('Error marking notifications read:', error);
+  }
+}
+
+/**
+ * Ask the server to notify both participants that a highlight became mutual
+ */
+export async function notifyMutualHighlight(myDailyId: string, chatId: string, messageId: string): Promise<void> {
+  const result = await apiRequest<NotifyResponse>('/api/notifications/mutual-highlight', {
+    body: { myDailyId, chatId, messageId }
+  });
+
+  if (!result.success) {
+    console.error('Mutual highlight notification failed:', result.message);
+  }
+}
+
+/**
+ * Ask the server to notify both authors that their story was approved or rejected (admins only)
+ */
+export async function notifyStoryReviewed(storyId: string): Promise<void> {
+  const result = await apiRequest<NotifyResponse>('/api/notifications/story-reviewed', { body: { storyId } });
+
+  if (!result.success) {
+    console.error('Story review notification failed:', result.message);
+  }
+}
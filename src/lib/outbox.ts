@@ -0,0 +1,111 @@
+/**
+ * Message Outbox - IndexedDB persistence
+ *
+ * Outgoing messages are stored here until the server accepts them, so a
+ * flaky connection or a closed tab does not lose them. Entries from an
+ * earlier reset day are dropped: their chat no longer exists.
+ * Every function degrades to a no-op when IndexedDB is unavailable.
+ */
+
+import { OUTBOX_RETRY_BASE_MS, OUTBOX_RETRY_MAX_MS } from '@/config/messaging';
+import type { OutboxMessage } from '@/types/chat';
+
+const DB_NAME = 'ghostmate-outbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'messages';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openOutboxDb(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.resolve(null);
+  }
+
+  if (!dbPromise) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'clientMessageId' });
+      store.createIndex('chatId', 'chatId');
+    };
+
+    dbPromise = requestToPromise(request).catch((error) => {
+      console.error('Outbox unavailable, messages will only be kept in memory:', error);
+      return null;
+    });
+  }
+
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => Promise<T>
+): Promise<T | null> {
+  try {
+    const db = await openOutboxDb();
+    if (!db) {
+      return null;
+    }
+    return await run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+  } catch (error) {
+    console.error('Outbox operation failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Save (insert or update) an outbox entry
+ */
+export async function saveOutboxMessage(entry: OutboxMessage): Promise<void> {
+  await withStore('readwrite', (store) => requestToPromise(store.put(entry)));
+}
+
+/**
+ * Remove an entry once it is delivered or dropped
+ */
+export async function deleteOutboxMessage(clientMessageId: string): Promise<void> {
+  await withStore('readwrite', (store) => requestToPromise(store.delete(clientMessageId)));
+}
+
+/**
+ * Load today's undelivered messages for a chat (oldest first)
+ * Entries from earlier reset days are deleted on the way
+ */
+export async function loadOutboxMessages(chatId: string, today: string): Promise<OutboxMessage[]> {
+  const entries = await withStore('readwrite', async (store) => {
+    const all = await requestToPromise(store.index('chatId').getAll(chatId)) as OutboxMessage[];
+    const stale = all.filter((entry) => entry.resetDate !== today);
+    await Promise.all(stale.map((entry) => requestToPromise(store.delete(entry.clientMessageId))));
+    return all.filter((entry) => entry.resetDate === today);
+  });
+
+  return (entries ?? []).sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Delete every entry written before today's reset (any chat)
+ */
+export async function purgeStaleOutbox(today: string): Promise<void> {
+  await withStore('readwrite', async (store) => {
+    const all = await requestToPromise(store.getAll()) as OutboxMessage[];
+    await Promise.all(
+      all
+        .filter((entry) => entry.resetDate !== today)
+        .map((entry) => requestToPromise(store.delete(entry.clientMessageId)))
+    );
+  });
+}
+
+/**
+ * Delay before the next delivery attempt (exponential backoff with a cap)
+ */
+export function getOutboxRetryDelay(attempts: number): number {
+  return Math.min(OUTBOX_RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), OUTBOX_RETRY_MAX_MS);
+}
@@ -0,0 +1,41 @@
+/**
+ * Presence Service
+ * Reads the `presence` heartbeats written by PresenceManager
+ */
+
+import { collection, onSnapshot, Unsubscribe } from 'firebase/firestore';
+import { db } from './firebase';
+
+// Heartbeats older than this mean the user is offline (tolerates background tab throttling)
+export const PRESENCE_STALE_MS = 180000;
+
+interface PresenceEntry {
+  dailyId?: string;
+  lastSeenMillis?: number;
+  expiresAtMillis?: number;
+}
+
+/**
+ * Listen to the daily IDs of everyone online right now
+ */
+export function listenToOnlineDailyIds(callback: (dailyIds: Set<string>) => void): Unsubscribe {
+  return onSnapshot(collection(db, 'presence'), (snapshot) => {
+    const now = Date.now();
+    const online = new Set<string>();
+
+    snapshot.docs.forEach((presenceDoc) => {
+      const { dailyId, lastSeenMillis, expiresAtMillis } = presenceDoc.data() as PresenceEntry;
+      const fresh = typeof lastSeenMillis === 'number' && now - lastSeenMillis < PRESENCE_STALE_MS;
+      const expired = typeof expiresAtMillis === 'number' && expiresAtMillis <= now;
+
+      if (dailyId && fresh && !expired) {
+        online.add(dailyId);
+      }
+    });
+
+    callback(online);
+  }, (error) => {
+    console.error('Error listening to presence:', error);
+    callback(new Set());
+  });
+}
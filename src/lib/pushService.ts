@@ -0,0 +1,116 @@
+/**
+ * Push Notification Service (client)
+ *
+ * Opt-in Web Push: subscribes this browser through the PWA service worker
+ * and registers the subscription with the server.
+ */
+
+import { apiRequest } from './apiClient';
+import { PUSH_VAPID_PUBLIC_KEY } from '@/config/push';
+
+export type PushState = 'unsupported' | 'denied' | 'disabled' | 'enabled';
+
+/**
+ * Check whether this browser and deployment can receive push notifications
+ */
+export function isPushSupported(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    'PushManager' in window &&
+    'Notification' in window &&
+    PUSH_VAPID_PUBLIC_KEY !== ''
+  );
+}
+
+function urlBase64ToUint8Array(base64Url: string): Uint8Array<ArrayBuffer> {
+  const base64 = `${base64Url}${'='.repeat((4 - (base64Url.length % 4)) % 4)}`
+    .replace(/-/g, '+')
+    .replace(/_/g, '/');
+  const raw = atob(base64);
+  const bytes = new Uint8Array(new ArrayBuffer(raw.length));
+  for (let i = 0; i < raw.length; i += 1) {
+    bytes[i] = raw.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function getServiceWorkerRegistration(): Promise<ServiceWorkerRegistration | null> {
+  // The service worker is only registered in production builds (see next.config.ts)
+  return (await navigator.serviceWorker.getRegistration()) ?? null;
+}
+
+/**
+ * Current push state of this browser
+ */
+export async function getPushState(): Promise<PushState> {
+  if (!isPushSupported()) {
+    return 'unsupported';
+  }
+
+  if (Notification.permission === 'denied') {
+    return 'denied';
+  }
+
+  const registration = await getServiceWorkerRegistration();
+  const subscription = await registration?.pushManager.getSubscription();
+  return subscription && Notification.permission === 'granted' ? 'enabled' : 'disabled';
+}
+
+/**
+ * Ask for permission, subscribe this browser and register it with the server
+ */
+export async function enablePushNotifications(): Promise<{ success: boolean; message: string }> {
+  try {
+    if (!isPushSupported()) {
+      return { success: false, message: 'This browser does not support notifications' };
+    }
+
+    const registration = await getServiceWorkerRegistration();
+    if (!registration) {
+      return { success: false, message: 'Notifications are available once the app has finished installing' };
+    }
+
+    const permission = await Notification.requestPermission();
+    if (permission !== 'granted') {
+      return { success: false, message: 'Notifications are blocked for GhostMate in your browser settings' };
+    }
+
+    const subscription =
+      (await registration.pushManager.getSubscription()) ??
+      (await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: urlBase64ToUint8Array(PUSH_VAPID_PUBLIC_KEY)
+      }));
+
+    const result = await apiRequest('/api/push/subscriptions', { body: { subscription: subscription.toJSON() } });
+    if (!result.success) {
+      return { success: false, message: result.message };
+    }
+
+    return { success: true, message: 'Notifications turned on' };
+  } catch (error) {
+    console.error('Error enabling push notifications:', error);
+    return { success: false, message: 'Failed to turn on notifications' };
+  }
+}
+
+/**
+ * Unsubscribe this browser and forget it on the server
+ */
+export async function disablePushNotifications(): Promise<{ success: boolean; message: string }> {
+  try {
+    const registration = isPushSupported() ? await getServiceWorkerRegistration() : null;
+    const subscription = await registration?.pushManager.getSubscription();
+
+    if (subscription) {
+      await apiRequest('/api/push/subscriptions', { method: 'DELETE', body: { endpoint: subscription.endpoint } });
+      await subscription.unsubscribe();
+    }
+
+    return { success: true, message: 'Notifications turned off' };
+  } catch (error) {
+    console.error('Error disabling push notifications:', error);
+    return { success: false, message: 'Failed to turn off notifications' };
+  }
+}
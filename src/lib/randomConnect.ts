@@ -12,11 +12,13 @@ import {
 import { ref, get } from 'firebase/database';
 import app, { db, database } from './firebase';
 import { getTodayMidnight } from './dailyId';
+import { getHiddenUserIds } from './moderationService';
+import { getOtherParticipantId } from './chatUtils';
 import { ADMIN_SUPPORT_DAILY_ID, ADMIN_SUPPORT_USER_ID } from '@/config/adminSupport';
 
 /**
  * Get a random active user's daily ID
- * Excludes current user and users already chatted with
+ * Excludes current user, blocked users and users already chatted with
  */
 export async function getRandomActiveDailyId(
   currentUserId: string,
@@ -42,6 +44,9 @@ export async function getRandomActiveDailyId(
       };
     }
     
+    // Users blocked in either direction (by UID, across daily IDs)
+    const hiddenUserIds = await getHiddenUserIds(currentUserId);
+    
     // Get all active daily IDs except current user's
     const activeDailyIds: string[] = [];
     snapshot.forEach((doc) => {
@@ -50,7 +55,7 @@ export async function getRandomActiveDailyId(
       const isSupportAccount =
         data.userId === ADMIN_SUPPORT_USER_ID || doc.id === ADMIN_SUPPORT_DAILY_ID;
 
-      if (data.userId !== currentUserId && !isSupportAccount) {
+      if (data.userId !== currentUserId && !isSupportAccount && !hiddenUserIds.has(data.userId)) {
         activeDailyIds.push(doc.id);
       }
     });
@@ -96,35 +101,20 @@ export async function getRandomActiveDailyId(
 
 /**
  * Get list of daily IDs the user has already chatted with today
+ * Reads only the user's `userChats` index
  */
 async function getExistingChatDailyIds(currentDailyId: string): Promise<string[]> {
   try {
-    const chatsRef = ref(database, 'chats');
-    const snapshot = await get(chatsRef);
-    
-    if (!snapshot.exists()) {
-      return [];
-    }
-    
-    const chats = snapshot.val();
+    const snapshot = await get(ref(database, `userChats/${currentDailyId}`));
     const existingDailyIds: string[] = [];
-    
-    // Extract daily IDs from chat IDs
-    Object.keys(chats).forEach((chatId) => {
-      // Chat ID format: "dailyId1_dailyId2" (sorted)
-      const [id1, id2] = chatId.split('_');
-      
-      if (id1 === currentDailyId) {
-        if (id2 !== ADMIN_SUPPORT_DAILY_ID) {
-          existingDailyIds.push(id2);
-        }
-      } else if (id2 === currentDailyId) {
-        if (id1 !== ADMIN_SUPPORT_DAILY_ID) {
-          existingDailyIds.push(id1);
-        }
+
+    snapshot.forEach((childSnapshot) => {
+      const otherDailyId = getOtherParticipantId(childSnapshot.key!, currentDailyId);
+      if (otherDailyId !== ADMIN_SUPPORT_DAILY_ID) {
+        existingDailyIds.push(otherDailyId);
       }
     });
-    
+
     return existingDailyIds;
   } catch (error) {
     console.error('Error getting existing chat IDs:', error);
@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getCurrentResetStart,
+  getNextResetStart,
+  getResetDateString,
+  getResetDayStart,
+  shiftDateString,
+  type ResetClockConfig
+} from './resetClock';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface ResetDayCase {
+  name: string;
+  config: ResetClockConfig;
+  date: string; // Reset day under test
+  start: string; // Expected first instant of the day (UTC)
+  next: string; // Expected first instant of the following day (UTC)
+  hours: number; // Expected length of the day
+}
+
+const resetDayCases: ResetDayCase[] = [
+  {
+    name: 'Asia/Karachi midnight (fixed +05:00)',
+    config: { timeZone: 'Asia/Karachi', resetHour: 0 },
+    date: '2026-10-19',
+    start: '2026-10-18T19:00:00Z',
+    next: '2026-10-19T19:00:00Z',
+    hours: 24
+  },
+  {
+    name: 'Asia/Karachi 3 AM',
+    config: { timeZone: 'Asia/Karachi', resetHour: 3 },
+    date: '2026-01-01',
+    start: '2025-12-31T22:00:00Z',
+    next: '2026-01-01T22:00:00Z',
+    hours: 24
+  },
+  {
+    name: 'America/New_York midnight, spring forward',
+    config: { timeZone: 'America/New_York', resetHour: 0 },
+    date: '2026-03-08',
+    start: '2026-03-08T05:00:00Z',
+    next: '2026-03-09T04:00:00Z',
+    hours: 23
+  },
+  {
+    name: 'America/New_York midnight, fall back',
+    config: { timeZone: 'America/New_York', resetHour: 0 },
+    date: '2026-11-01',
+    start: '2026-11-01T04:00:00Z',
+    next: '2026-11-02T05:00:00Z',
+    hours: 25
+  },
+  {
+    name: 'America/New_York 2 AM, reset hour skipped by spring forward',
+    config: { timeZone: 'America/New_York', resetHour: 2 },
+    date: '2026-03-08',
+    start: '2026-03-08T07:00:00Z', // 3 AM EDT, the first instant after the gap
+    next: '2026-03-09T06:00:00Z',
+    hours: 23
+  },
+  {
+    name: 'America/New_York 1 AM, reset hour repeated by fall back',
+    config: { timeZone: 'America/New_York', resetHour: 1 },
+    date: '2026-11-01',
+    start: '2026-11-01T05:00:00Z', // First 1 AM (EDT)
+    next: '2026-11-02T06:00:00Z',
+    hours: 25
+  },
+  {
+    name: 'Europe/London midnight, spring forward',
+    config: { timeZone: 'Europe/London', resetHour: 0 },
+    date: '2026-03-29',
+    start: '2026-03-29T00:00:00Z',
+    next: '2026-03-29T23:00:00Z',
+    hours: 23
+  },
+  {
+    name: 'Europe/London midnight, fall back',
+    config: { timeZone: 'Europe/London', resetHour: 0 },
+    date: '2026-10-25',
+    start: '2026-10-24T23:00:00Z',
+    next: '2026-10-26T00:00:00Z',
+    hours: 25
+  },
+  {
+    name: 'Europe/London 1 AM, reset hour skipped by spring forward',
+    config: { timeZone: 'Europe/London', resetHour: 1 },
+    date: '2026-03-29',
+    start: '2026-03-29T01:00:00Z', // 2 AM BST
+    next: '2026-03-30T00:00:00Z',
+    hours: 23
+  },
+  {
+    name: 'Australia/Lord_Howe midnight, 30-minute spring forward',
+    config: { timeZone: 'Australia/Lord_Howe', resetHour: 0 },
+    date: '2026-10-04',
+    start: '2026-10-03T13:30:00Z',
+    next: '2026-10-04T13:00:00Z',
+    hours: 23.5
+  },
+  {
+    name: 'Australia/Lord_Howe midnight, 30-minute fall back',
+    config: { timeZone: 'Australia/Lord_Howe', resetHour: 0 },
+    date: '2026-04-05',
+    start: '2026-04-04T13:00:00Z',
+    next: '2026-04-05T13:30:00Z',
+    hours: 24.5
+  },
+  {
+    name: 'Australia/Lord_Howe 2 AM, reset hour inside the 30-minute gap',
+    config: { timeZone: 'Australia/Lord_Howe', resetHour: 2 },
+    date: '2026-10-04',
+    start: '2026-10-03T15:30:00Z', // 2:30 AM +11:00
+    next: '2026-10-04T15:00:00Z',
+    hours: 23.5
+  }
+];
+
+describe('reset day boundaries', () => {
+  it.each(resetDayCases)('$name', ({ config, date, start, next, hours }) => {
+    const startMs = Date.parse(start);
+    const nextMs = Date.parse(next);
+
+    expect(getResetDayStart(date, config).toISOString()).toBe(new Date(startMs).toISOString());
+    expect(getResetDayStart(shiftDateString(date, 1), config).toISOString()).toBe(new Date(nextMs).toISOString());
+    expect((nextMs - startMs) / HOUR_MS).toBe(hours);
+
+    // The day owns [start, next)
+    expect(getResetDateString(startMs, config)).toBe(date);
+    expect(getResetDateString(nextMs - 1, config)).toBe(date);
+    expect(getResetDateString(startMs - 1, config)).toBe(shiftDateString(date, -1));
+    expect(getResetDateString(nextMs, config)).toBe(shiftDateString(date, 1));
+
+    // Any instant inside the day resolves to the same boundaries
+    for (const instant of [startMs, startMs + (nextMs - startMs) / 2, nextMs - 1]) {
+      expect(getCurrentResetStart(instant, config).getTime()).toBe(startMs);
+      expect(getNextResetStart(instant, config).getTime()).toBe(nextMs);
+    }
+  });
+});
+
+describe('shiftDateString', () => {
+  it.each([
+    ['2026-10-19', 1, '2026-10-20'],
+    ['2026-10-31', 1, '2026-11-01'],
+    ['2026-01-01', -1, '2025-12-31'],
+    ['2028-02-28', 1, '2028-02-29'],
+    ['2026-03-08', -84, '2025-12-14']
+  ])('%s shifted by %i is %s', (date, days, expected) => {
+    expect(shiftDateString(date, days)).toBe(expected);
+  });
+});
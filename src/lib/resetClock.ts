@@ -0,0 +1,187 @@
+/**
+ * Reset Clock - Timezone-aware daily boundaries
+ *
+ * Single source of truth for "what day is it" in GhostMate. A reset day
+ * starts at `resetHour`:00 wall-clock time in `timeZone` and runs until the
+ * same wall-clock time on the next calendar day, so days are 23 or 25 hours
+ * long across DST transitions.
+ */
+
+import { RESET_HOUR, RESET_TIMEZONE, RESET_TIMEZONE_LABEL } from '@/config/resetClock';
+
+export interface ResetClockConfig {
+  timeZone: string; // IANA timezone name
+  resetHour: number; // 0-23 in the timezone's wall-clock time
+}
+
+interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Get the configured reset clock (from environment)
+ */
+export function getResetClockConfig(): ResetClockConfig {
+  return { timeZone: RESET_TIMEZONE, resetHour: RESET_HOUR };
+}
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock parts of an instant in a timezone
+ */
+function getZonedParts(instant: number, timeZone: string): ZonedParts & { minute: number; second: number } {
+  const values: Record<string, number> = {};
+  getFormatter(timeZone)
+    .formatToParts(new Date(instant))
+    .forEach(({ type, value }) => {
+      if (type !== 'literal') {
+        values[type] = Number.parseInt(value, 10);
+      }
+    });
+
+  return {
+    year: values.year,
+    month: values.month,
+    day: values.day,
+    hour: values.hour % 24,
+    minute: values.minute,
+    second: values.second
+  };
+}
+
+/**
+ * Offset of a timezone from UTC at a given instant (ms, positive east of UTC)
+ */
+function getTimeZoneOffset(instant: number, timeZone: string): number {
+  const parts = getZonedParts(instant, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - (instant - (instant % 1000));
+}
+
+/**
+ * Convert a wall-clock time in a timezone to a UTC instant
+ * Wall-clock times skipped by a DST jump resolve to the first valid instant after it
+ */
+function zonedTimeToUtc(parts: ZonedParts, timeZone: string): number {
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour);
+  const firstGuess = wallClock - getTimeZoneOffset(wallClock, timeZone);
+  const secondOffset = getTimeZoneOffset(firstGuess, timeZone);
+  const secondGuess = wallClock - secondOffset;
+
+  if (getTimeZoneOffset(secondGuess, timeZone) === secondOffset) {
+    return secondGuess;
+  }
+
+  // The requested wall-clock time does not exist (spring-forward gap)
+  return Math.max(firstGuess, secondGuess);
+}
+
+function toDateString({ year, month, day }: Pick<ZonedParts, 'year' | 'month' | 'day'>): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function parseDateString(dateString: string): Pick<ZonedParts, 'year' | 'month' | 'day'> {
+  const [year, month, day] = dateString.split('-').map((part) => Number.parseInt(part, 10));
+  return { year, month, day };
+}
+
+/**
+ * Shift a YYYY-MM-DD date string by whole calendar days
+ */
+export function shiftDateString(dateString: string, days: number): string {
+  const { year, month, day } = parseDateString(dateString);
+  const shifted = new Date(Date.UTC(year, month - 1, day + days));
+  return toDateString({
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate()
+  });
+}
+
+/**
+ * Get the reset day (YYYY-MM-DD) that an instant belongs to
+ */
+export function getResetDateString(
+  now: number = Date.now(),
+  config: ResetClockConfig = getResetClockConfig()
+): string {
+  const parts = getZonedParts(now, config.timeZone);
+  const calendarDate = toDateString(parts);
+  return parts.hour < config.resetHour ? shiftDateString(calendarDate, -1) : calendarDate;
+}
+
+/**
+ * Get the reset day before the one an instant belongs to
+ */
+export function getPreviousResetDateString(
+  now: number = Date.now(),
+  config: ResetClockConfig = getResetClockConfig()
+): string {
+  return shiftDateString(getResetDateString(now, config), -1);
+}
+
+/**
+ * Get the instant a given reset day starts
+ */
+export function getResetDayStart(
+  dateString: string,
+  config: ResetClockConfig = getResetClockConfig()
+): Date {
+  const { year, month, day } = parseDateString(dateString);
+  return new Date(zonedTimeToUtc({ year, month, day, hour: config.resetHour }, config.timeZone));
+}
+
+/**
+ * Get the start of the reset day an instant belongs to
+ */
+export function getCurrentResetStart(
+  now: number = Date.now(),
+  config: ResetClockConfig = getResetClockConfig()
+): Date {
+  return getResetDayStart(getResetDateString(now, config), config);
+}
+
+/**
+ * Get the start of the next reset day (the next reset boundary)
+ */
+export function getNextResetStart(
+  now: number = Date.now(),
+  config: ResetClockConfig = getResetClockConfig()
+): Date {
+  return getResetDayStart(shiftDateString(getResetDateString(now, config), 1), config);
+}
+
+/**
+ * Human-readable reset time for UI copy, e.g. "midnight PKT" or "3 AM Europe/London"
+ */
+export function getResetTimeLabel(config: ResetClockConfig = getResetClockConfig()): string {
+  const label = config.timeZone === RESET_TIMEZONE ? RESET_TIMEZONE_LABEL : config.timeZone;
+  if (config.resetHour === 0) {
+    return `midnight ${label}`;
+  }
+  const hour12 = config.resetHour % 12 || 12;
+  const suffix = config.resetHour < 12 ? 'AM' : 'PM';
+  return `${hour12} ${suffix} ${label}`;
+}
@@ -0,0 +1,125 @@
+/**
+ * Server Auth Helpers
+ * Verifies Firebase ID tokens sent as `Authorization: Bearer <token>`
+ * and resolves daily ID ownership with the Admin SDK.
+ */
+
+import { adminAuth, adminDb } from './firebaseAdmin';
+import {
+  ADMIN_SUPPORT_DAILY_ID,
+  ADMIN_SUPPORT_USER_ID,
+  isAdminSupportDailyId,
+  isAdminSupportUserId,
+} from '@/config/adminSupport';
+import { validateDailyId } from '../dailyId';
+
+// Mirrors adminEmails() in firestore.rules; extend with ADMIN_EMAILS or config/admins
+const DEFAULT_ADMIN_EMAILS = ['admin@ghostmate.com'];
+
+export interface AuthenticatedUser {
+  uid: string;
+  email: string | null;
+  isAdmin: boolean;
+}
+
+async function isAdminEmail(email: string | null): Promise<boolean> {
+  if (!email) {
+    return false;
+  }
+
+  const envEmails = (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  if ([...DEFAULT_ADMIN_EMAILS, ...envEmails].includes(email)) {
+    return true;
+  }
+
+  const configDoc = await adminDb.collection('config').doc('admins').get();
+  const configEmails = configDoc.exists ? (configDoc.data()?.emails as string[] | undefined) : undefined;
+  return Array.isArray(configEmails) && configEmails.includes(email);
+}
+
+/**
+ * Verify the request's ID token
+ * Returns null when the header is missing or the token is invalid/expired
+ */
+export async function authenticateRequest(request: Request): Promise<AuthenticatedUser | null> {
+  const header = request.headers.get('authorization') || '';
+  const match = header.match(/^Bearer (.+)$/);
+
+  if (!match) {
+    return null;
+  }
+
+  try {
+    const decoded = await adminAuth.verifyIdToken(match[1]);
+    const email = decoded.email ?? null;
+    return {
+      uid: decoded.uid,
+      email,
+      isAdmin: await isAdminEmail(email)
+    };
+  } catch (error) {
+    console.error('Error verifying ID token:', error);
+    return null;
+  }
+}
+
+/**
+ * Get the UID that currently owns a daily ID (null if unknown or expired)
+ */
+export async function getDailyIdOwner(dailyId: string): Promise<string | null> {
+  if (isAdminSupportDailyId(dailyId)) {
+    return ADMIN_SUPPORT_USER_ID;
+  }
+
+  if (!validateDailyId(dailyId)) {
+    return null;
+  }
+
+  const dailyIdDoc = await adminDb.collection('dailyIds').doc(dailyId).get();
+  if (!dailyIdDoc.exists) {
+    return null;
+  }
+
+  const data = dailyIdDoc.data();
+  const expiresAt: Date | undefined = data?.expiresAt?.toDate?.();
+  if (!expiresAt || expiresAt.getTime() <= Date.now()) {
+    return null;
+  }
+
+  return data?.userId || null;
+}
+
+/**
+ * Get a user's daily ID for today (null if they have not signed in since the reset)
+ */
+export async function getCurrentDailyId(userId: string): Promise<string | null> {
+  if (isAdminSupportUserId(userId)) {
+    return ADMIN_SUPPORT_DAILY_ID;
+  }
+
+  const userDoc = await adminDb.collection('users').doc(userId).get();
+  const dailyId: unknown = userDoc.data()?.dailyId;
+  if (typeof dailyId !== 'string') {
+    return null;
+  }
+
+  // The users doc keeps yesterday's ID until they sign in again, so confirm it is still theirs
+  return (await getDailyIdOwner(dailyId)) === userId ? dailyId : null;
+}
+
+/**
+ * Check that the authenticated user is allowed to act as a daily ID
+ * The support daily ID belongs to admins only
+ */
+export async function ownsDailyId(user: AuthenticatedUser, dailyId: string): Promise<boolean> {
+  if (isAdminSupportDailyId(dailyId)) {
+    return user.isAdmin;
+  }
+
+  const ownerId = await getDailyIdOwner(dailyId);
+  return ownerId !== null && ownerId === user.uid;
+}
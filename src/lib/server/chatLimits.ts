@@ -0,0 +1,100 @@
+/**
+ * Server Chat Limits
+ * Authoritative daily chat quota stored on `users/{uid}.chatLimit`
+ */
+
+import { adminDb } from './firebaseAdmin';
+import { getTodayDateString } from '../dailyId';
+import { resolveChatQuota } from '../chatQuota';
+import type { ChatQuotaBreakdown, ChatQuotaDoc } from '@/types/chatQuota';
+
+export interface ChatSlotReservation {
+  success: boolean;
+  count: number;
+  limit: number;
+  remaining: number;
+  quota: ChatQuotaBreakdown;
+}
+
+/**
+ * Resolve today's quota (default tier + streak bonus + admin grant) with the Admin SDK
+ */
+export async function loadChatQuota(userId: string): Promise<ChatQuotaBreakdown> {
+  const [quotaDoc, connectionsSnapshot] = await Promise.all([
+    adminDb.collection('chatQuotas').doc(userId).get(),
+    adminDb.collection('connections').where('userIds', 'array-contains', userId).get()
+  ]);
+
+  const bestStreak = connectionsSnapshot.docs.reduce((best, docSnap) => {
+    const data = docSnap.data();
+    return data.status === 'active' ? Math.max(best, data.streakCount || 0) : best;
+  }, 0);
+
+  const quotaData = quotaDoc.exists ? (quotaDoc.data() as ChatQuotaDoc) : null;
+  return resolveChatQuota(quotaData, bestStreak, getTodayDateString());
+}
+
+/**
+ * Consume one chat initiation for today, refusing once the limit is reached
+ */
+export async function reserveChatSlot(userId: string): Promise<ChatSlotReservation> {
+  const userRef = adminDb.collection('users').doc(userId);
+  const today = getTodayDateString();
+  const quota = await loadChatQuota(userId);
+  const limit = quota.total;
+
+  return adminDb.runTransaction(async (transaction) => {
+    const userDoc = await transaction.get(userRef);
+    const chatLimit = userDoc.data()?.chatLimit;
+    // A different date means the count has reset
+    const currentCount = chatLimit?.lastResetDate === today ? chatLimit?.chatCount || 0 : 0;
+
+    if (currentCount >= limit) {
+      return { success: false, count: currentCount, limit, remaining: 0, quota };
+    }
+
+    const newCount = currentCount + 1;
+    transaction.set(
+      userRef,
+      {
+        userId,
+        chatLimit: {
+          chatCount: newCount,
+          lastResetDate: today,
+          lastUpdated: Date.now()
+        }
+      },
+      { merge: true }
+    );
+
+    return {
+      success: true,
+      count: newCount,
+      limit,
+      remaining: limit - newCount,
+      quota
+    };
+  });
+}
+
+/**
+ * Give back a reserved slot when the chat turned out not to be new
+ */
+export async function releaseChatSlot(userId: string): Promise<void> {
+  const userRef = adminDb.collection('users').doc(userId);
+  const today = getTodayDateString();
+
+  await adminDb.runTransaction(async (transaction) => {
+    const userDoc = await transaction.get(userRef);
+    const chatLimit = userDoc.data()?.chatLimit;
+
+    if (chatLimit?.lastResetDate !== today || !chatLimit?.chatCount) {
+      return;
+    }
+
+    transaction.update(userRef, {
+      'chatLimit.chatCount': chatLimit.chatCount - 1,
+      'chatLimit.lastUpdated': Date.now()
+    });
+  });
+}
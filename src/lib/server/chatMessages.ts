@@ -0,0 +1,260 @@
+/**
+ * Server Chat Messages
+ * Authoritative chat and message writes for the realtime chats tree
+ */
+
+import { ServerValue } from 'firebase-admin/database';
+import { adminDatabase } from './firebaseAdmin';
+import {
+  buildChatMetadataUpdates,
+  createMessageReply,
+  createUserChatEntry,
+  generateChatId,
+  sanitizeMessageText
+} from '../chatUtils';
+import { getNextResetStart } from '../resetClock';
+import type { Chat, Message, MessageReply } from '@/types/chat';
+
+export interface ServerSendMessageInput {
+  chatId: string;
+  senderId: string;
+  recipientId: string;
+  text: string; // Already validated with isValidMessage
+  clientMessageId?: string; // Already validated with isValidClientMessageId
+  replyTo?: MessageReply; // Built from the stored original with getReplySnapshot
+}
+
+/**
+ * Load chat metadata without downloading its messages
+ */
+export async function getChatParticipants(chatId: string): Promise<Chat['participants'] | null> {
+  const snapshot = await adminDatabase.ref(`chats/${chatId}/participants`).get();
+  return snapshot.exists() ? (snapshot.val() as Chat['participants']) : null;
+}
+
+/**
+ * Create a chat only if it does not exist yet, and add it to both participants' `userChats`
+ * Returns true when this call created it (false if it already existed)
+ */
+export async function createChatIfAbsent(myDailyId: string, otherDailyId: string): Promise<boolean> {
+  const chatId = generateChatId(myDailyId, otherDailyId);
+  const now = Date.now();
+  const newChat: Chat = {
+    chatId,
+    participants: {
+      [myDailyId]: true,
+      [otherDailyId]: true
+    },
+    participantIds: [myDailyId, otherDailyId],
+    createdAt: now,
+    updatedAt: now
+  };
+
+  const result = await adminDatabase.ref(`chats/${chatId}`).transaction((current) => {
+    if (current !== null) {
+      return; // Abort: chat already exists
+    }
+    return newChat;
+  });
+
+  if (result.committed) {
+    await adminDatabase.ref().update({
+      [`userChats/${myDailyId}/${chatId}`]: createUserChatEntry(newChat, myDailyId),
+      [`userChats/${otherDailyId}/${chatId}`]: createUserChatEntry(newChat, otherDailyId)
+    });
+  }
+
+  return result.committed;
+}
+
+/**
+ * Record verified daily ID owners in `dailyIdOwners/{dailyId}` until the next reset
+ * database.rules.json uses it to check that a reaction is written by its reactor
+ */
+export async function recordDailyIdOwners(owners: Record<string, string>): Promise<void> {
+  const expiresAt = getNextResetStart().getTime();
+  const updates: Record<string, { uid: string; expiresAt: number }> = {};
+
+  Object.entries(owners).forEach(([dailyId, uid]) => {
+    updates[`dailyIdOwners/${dailyId}`] = { uid, expiresAt };
+  });
+
+  await adminDatabase.ref().update(updates);
+}
+
+/**
+ * Quote snapshot of an earlier user message in the chat (null if it is gone or a system message)
+ */
+export async function getReplySnapshot(chatId: string, messageId: string): Promise<MessageReply | null> {
+  const snapshot = await adminDatabase.ref(`chats/${chatId}/messages/${messageId}`).get();
+  if (!snapshot.exists()) {
+    return null;
+  }
+
+  const original = snapshot.val() as Omit<Message, 'id'>;
+  if (original.isSystemMessage) {
+    return null;
+  }
+
+  return createMessageReply({ id: messageId, senderId: original.senderId, text: original.text });
+}
+
+/**
+ * Load a stored message (null if it does not exist)
+ */
+export async function getChatMessage(chatId: string, messageId: string): Promise<Message | null> {
+  const snapshot = await adminDatabase.ref(`chats/${chatId}/messages/${messageId}`).get();
+  return snapshot.exists() ? { id: messageId, ...(snapshot.val() as Omit<Message, 'id'>) } : null;
+}
+
+/**
+ * Check whether a message is the newest one in its chat (and so shown as the preview)
+ */
+async function isLatestMessage(chatId: string, messageId: string): Promise<boolean> {
+  const snapshot = await adminDatabase
+    .ref(`chats/${chatId}/messages`)
+    .orderByChild('timestamp')
+    .limitToLast(1)
+    .get();
+
+  let latestId: string | null = null;
+  snapshot.forEach((child) => {
+    latestId = child.key;
+  });
+  return latestId === messageId;
+}
+
+/**
+ * Replace a message's text and mark it edited
+ */
+export async function editChatMessage(chatId: string, messageId: string, rawText: string): Promise<number> {
+  const text = sanitizeMessageText(rawText);
+  const editedAt = Date.now();
+  const updates: Record<string, unknown> = {
+    [`chats/${chatId}/messages/${messageId}/text`]: text,
+    [`chats/${chatId}/messages/${messageId}/editedAt`]: editedAt
+  };
+
+  if (await isLatestMessage(chatId, messageId)) {
+    Object.assign(updates, buildChatMetadataUpdates(chatId, { lastMessage: text.substring(0, 100) }));
+  }
+
+  await adminDatabase.ref().update(updates);
+  return editedAt;
+}
+
+/**
+ * Replace a message with a tombstone for both participants
+ * Its text, reactions and reply quote are dropped, and replies quoting it lose their excerpt.
+ */
+export async function unsendChatMessage(chatId: string, message: Message): Promise<number> {
+  const unsentAt = Date.now();
+  const tombstone: Omit<Message, 'id'> = {
+    senderId: message.senderId,
+    recipientId: message.recipientId,
+    text: '',
+    timestamp: message.timestamp,
+    read: message.read,
+    unsentAt
+  };
+
+  const [latest, replies] = await Promise.all([
+    isLatestMessage(chatId, message.id),
+    adminDatabase
+      .ref(`chats/${chatId}/messages`)
+      .orderByChild('replyTo/messageId')
+      .equalTo(message.id)
+      .get()
+  ]);
+
+  const updates: Record<string, unknown> = {
+    [`chats/${chatId}/messages/${message.id}`]: tombstone
+  };
+
+  replies.forEach((reply) => {
+    updates[`chats/${chatId}/messages/${reply.key}/replyTo/excerpt`] = '';
+  });
+
+  if (latest) {
+    Object.assign(updates, buildChatMetadataUpdates(chatId, { lastMessage: 'Message unsent' }));
+  }
+
+  await adminDatabase.ref().update(updates);
+  return unsentAt;
+}
+
+/**
+ * Write a message, chat preview (including `userChats`) and unread counters in one atomic multi-path update
+ * A retried `clientMessageId` that was already delivered is not written twice
+ */
+export async function writeChatMessage(
+  input: ServerSendMessageInput
+): Promise<{ messageId: string; timestamp: number; duplicate?: boolean }> {
+  const { chatId, senderId, recipientId, clientMessageId, replyTo } = input;
+  const text = sanitizeMessageText(input.text);
+  const timestamp = Date.now();
+  const messageId = clientMessageId ?? adminDatabase.ref(`chats/${chatId}/messages`).push().key!;
+
+  if (clientMessageId) {
+    const existing = await adminDatabase.ref(`chats/${chatId}/messages/${clientMessageId}`).get();
+    if (existing.exists()) {
+      const delivered = existing.val() as Omit<Message, 'id'>;
+      return { messageId, timestamp: delivered.timestamp, duplicate: true };
+    }
+  }
+
+  const message: Omit<Message, 'id'> = {
+    senderId,
+    recipientId,
+    text,
+    timestamp,
+    read: false,
+    ...(replyTo ? { replyTo } : {})
+  };
+
+  await adminDatabase.ref().update({
+    [`chats/${chatId}/messages/${messageId}`]: message,
+    ...buildChatMetadataUpdates(chatId, {
+      lastMessage: text.substring(0, 100), // First 100 chars for preview
+      lastMessageTimestamp: timestamp,
+      updatedAt: timestamp
+    }),
+    [`chats/${chatId}/unreadCounts/${recipientId}`]: ServerValue.increment(1),
+    [`chats/${chatId}/unreadCounts/${senderId}`]: 0,
+    [`userUnread/${recipientId}/${chatId}`]: ServerValue.increment(1),
+    [`userUnread/${senderId}/${chatId}`]: 0
+  });
+
+  return { messageId, timestamp };
+}
+
+/**
+ * Post a system message and update the chat preview (skipped if the chat does not exist)
+ * Clients cannot write system messages, so every one of them comes from a trusted server path.
+ */
+export async function writeSystemMessage(chatId: string, text: string): Promise<boolean> {
+  if (!(await getChatParticipants(chatId))) {
+    return false;
+  }
+
+  const timestamp = Date.now();
+  const messageId = adminDatabase.ref(`chats/${chatId}/messages`).push().key!;
+  const message: Omit<Message, 'id'> = {
+    senderId: 'system',
+    recipientId: 'system',
+    text,
+    timestamp,
+    read: false,
+    isSystemMessage: true
+  };
+
+  await adminDatabase.ref().update({
+    [`chats/${chatId}/messages/${messageId}`]: message,
+    ...buildChatMetadataUpdates(chatId, {
+      lastMessage: text.substring(0, 100),
+      lastMessageTimestamp: timestamp,
+      updatedAt: timestamp
+    })
+  });
+  return true;
+}
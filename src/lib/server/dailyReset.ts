@@ -0,0 +1,277 @@
+/**
+ * Daily Reset Job - Server-side midnight purge
+ *
+ * Deletes everything the PRD promises is gone after the daily reset:
+ * - Realtime DB: expired chats/messages, their userUnread counters, userChats entries and dailyIdOwners
+ * - Firestore: expired dailyIds, presence, highlight and notification subcollections and approvedStories
+ * It also expires connections whose streak lapsed (see streakExpiry.ts).
+ *
+ * Each step runs independently so one failure does not block the rest,
+ * and a report is written to resetReports/{date} for the admin panel.
+ * The job is scheduled hourly and only does work once per reset day, so it
+ * follows whatever reset timezone/hour is configured.
+ */
+
+import { Timestamp, type Query } from 'firebase-admin/firestore';
+import { adminDatabase, adminDb } from './firebaseAdmin';
+import { forEachChildPage } from './realtimePages';
+import { getTodayMidnight, getTodayDateString } from '../dailyId';
+import {
+  planExpiredChatPageCleanup,
+  planInboxPreviewRefresh,
+  planStaleChatEntryCleanup,
+  type ChatPreview,
+  type PerUserChatData,
+  type StoredChat
+} from '../chatUtils';
+import { expireLapsedConnections } from './streakExpiry';
+
+const BATCH_SIZE = 400;
+
+export interface DailyResetStepResult {
+  step: string;
+  deleted: number;
+  details?: Record<string, number>;
+  error?: string;
+}
+
+export interface DailyResetReport {
+  resetDate: string; // YYYY-MM-DD of the day that just started (reset timezone)
+  midnight: number; // Unix ms of the boundary everything was purged against
+  startedAt: number;
+  finishedAt: number;
+  success: boolean;
+  skipped?: boolean; // True when today's reset already completed
+  steps: DailyResetStepResult[];
+}
+
+/**
+ * Delete every document matched by a query in batches
+ */
+async function deleteQueryDocs(docsQuery: Query): Promise<number> {
+  let deleted = 0;
+
+  // Re-run the query until it is drained so we never hold more than one batch in memory
+  for (;;) {
+    const snapshot = await docsQuery.limit(BATCH_SIZE).get();
+    if (snapshot.empty) {
+      return deleted;
+    }
+
+    const batch = adminDb.batch();
+    snapshot.docs.forEach((docSnapshot) => batch.delete(docSnapshot.ref));
+    await batch.commit();
+    deleted += snapshot.size;
+
+    if (snapshot.size < BATCH_SIZE) {
+      return deleted;
+    }
+  }
+}
+
+async function applyUpdates(updates: Record<string, unknown>): Promise<void> {
+  if (Object.keys(updates).length > 0) {
+    await adminDatabase.ref().update(updates);
+  }
+}
+
+async function purgeExpiredChats(midnight: number): Promise<DailyResetStepResult> {
+  const survivingChatIds = new Set<string>();
+  const deletedChatIds = new Set<string>();
+  const refreshedPreviews = new Map<string, ChatPreview>();
+  let deletedMessages = 0;
+
+  await forEachChildPage<StoredChat | null>('chats', async (page) => {
+    const plan = planExpiredChatPageCleanup(page, midnight);
+    plan.survivingChatIds.forEach((chatId) => survivingChatIds.add(chatId));
+    plan.deletedChatIds.forEach((chatId) => deletedChatIds.add(chatId));
+    plan.refreshedPreviews.forEach((preview, chatId) => refreshedPreviews.set(chatId, preview));
+    deletedMessages += plan.deletedMessages;
+    await applyUpdates(plan.updates);
+  });
+
+  // Chats opened after their page was read are not stale, so look up unknown IDs before dropping entries
+  const keepChatsCreatedSince = async (data: PerUserChatData) => {
+    const unknownChatIds = new Set(
+      Object.values(data ?? {})
+        .flatMap((entries) => Object.keys(entries ?? {}))
+        .filter((chatId) => !survivingChatIds.has(chatId) && !deletedChatIds.has(chatId))
+    );
+
+    await Promise.all(
+      Array.from(unknownChatIds).map(async (chatId) => {
+        const createdAt = await adminDatabase.ref(`chats/${chatId}/createdAt`).get();
+        if (createdAt.exists()) {
+          survivingChatIds.add(chatId);
+        }
+      })
+    );
+  };
+
+  let deletedUnreadEntries = 0;
+  await forEachChildPage<Record<string, unknown> | null>('userUnread', async (page) => {
+    const updates: Record<string, unknown> = {};
+    await keepChatsCreatedSince(page);
+    deletedUnreadEntries += planStaleChatEntryCleanup('userUnread', page, survivingChatIds, updates);
+    await applyUpdates(updates);
+  });
+
+  let deletedInboxEntries = 0;
+  await forEachChildPage<Record<string, unknown> | null>('userChats', async (page) => {
+    const updates: Record<string, unknown> = {};
+    await keepChatsCreatedSince(page);
+    planInboxPreviewRefresh(page, refreshedPreviews, updates);
+    deletedInboxEntries += planStaleChatEntryCleanup('userChats', page, survivingChatIds, updates);
+    await applyUpdates(updates);
+  });
+
+  const deletedChats = deletedChatIds.size;
+
+  return {
+    step: 'chats',
+    deleted: deletedChats,
+    details: { deletedChats, deletedMessages, deletedUnreadEntries, deletedInboxEntries }
+  };
+}
+
+async function purgeExpiredDailyIdOwners(midnight: number): Promise<DailyResetStepResult> {
+  const snapshot = await adminDatabase.ref('dailyIdOwners').get();
+  const updates: Record<string, null> = {};
+
+  snapshot.forEach((child) => {
+    if ((child.child('expiresAt').val() ?? 0) <= midnight) {
+      updates[`dailyIdOwners/${child.key}`] = null;
+    }
+  });
+
+  if (Object.keys(updates).length > 0) {
+    await adminDatabase.ref().update(updates);
+  }
+
+  return { step: 'dailyIdOwners', deleted: Object.keys(updates).length };
+}
+
+async function purgeExpiredDailyIds(midnight: Date): Promise<DailyResetStepResult> {
+  const deleted = await deleteQueryDocs(
+    adminDb.collection('dailyIds').where('expiresAt', '<=', midnight)
+  );
+  return { step: 'dailyIds', deleted };
+}
+
+async function purgeExpiredPresence(midnight: number): Promise<DailyResetStepResult> {
+  const deleted = await deleteQueryDocs(
+    adminDb.collection('presence').where('expiresAtMillis', '<=', midnight)
+  );
+  return { step: 'presence', deleted };
+}
+
+async function purgeExpiredHighlights(midnight: number): Promise<DailyResetStepResult> {
+  // listDocuments() also returns parents that only exist through their subcollection
+  const userRefs = await adminDb.collection('highlights').listDocuments();
+  let deletedMessages = 0;
+  let deletedUsers = 0;
+
+  for (const userRef of userRefs) {
+    const messagesRef = userRef.collection('messages');
+    deletedMessages += await deleteQueryDocs(messagesRef.where('highlightedAt', '<', midnight));
+
+    const remaining = await messagesRef.limit(1).get();
+    if (remaining.empty) {
+      await userRef.delete();
+      deletedUsers += 1;
+    }
+  }
+
+  return {
+    step: 'highlights',
+    deleted: deletedMessages,
+    details: { deletedMessages, deletedUsers }
+  };
+}
+
+async function purgeExpiredNotifications(midnight: number): Promise<DailyResetStepResult> {
+  const userRefs = await adminDb.collection('notifications').listDocuments();
+  let deleted = 0;
+
+  for (const userRef of userRefs) {
+    deleted += await deleteQueryDocs(userRef.collection('items').where('createdAt', '<', midnight));
+  }
+
+  return { step: 'notifications', deleted, details: { users: userRefs.length } };
+}
+
+async function purgeExpiredStories(): Promise<DailyResetStepResult> {
+  const deleted = await deleteQueryDocs(
+    adminDb.collection('approvedStories').where('expiresAt', '<=', Timestamp.now())
+  );
+  return { step: 'approvedStories', deleted };
+}
+
+async function expireConnections(): Promise<DailyResetStepResult> {
+  const { expired, broken, notified } = await expireLapsedConnections();
+  return { step: 'connections', deleted: 0, details: { expired, broken, notified } };
+}
+
+async function runStep(
+  step: string,
+  action: () => Promise<DailyResetStepResult>
+): Promise<DailyResetStepResult> {
+  try {
+    return await action();
+  } catch (error: unknown) {
+    console.error(`Daily reset step "${step}" failed:`, error);
+    return {
+      step,
+      deleted: 0,
+      error: error instanceof Error ? error.message : 'unknown-error'
+    };
+  }
+}
+
+/**
+ * Run the full midnight reset and persist a report
+ * Skips if a successful report already exists for today unless `force` is set
+ */
+export async function runDailyReset(
+  options: { force?: boolean } = {}
+): Promise<DailyResetReport> {
+  const reportRef = adminDb.collection('resetReports').doc(getTodayDateString());
+
+  if (!options.force) {
+    const existing = await reportRef.get();
+    if (existing.exists && (existing.data() as DailyResetReport).success) {
+      return { ...(existing.data() as DailyResetReport), skipped: true };
+    }
+  }
+
+  const startedAt = Date.now();
+  const midnightDate = getTodayMidnight();
+  const midnight = midnightDate.getTime();
+
+  const steps: DailyResetStepResult[] = [];
+  steps.push(await runStep('chats', () => purgeExpiredChats(midnight)));
+  steps.push(await runStep('dailyIdOwners', () => purgeExpiredDailyIdOwners(midnight)));
+  steps.push(await runStep('dailyIds', () => purgeExpiredDailyIds(midnightDate)));
+  steps.push(await runStep('presence', () => purgeExpiredPresence(midnight)));
+  steps.push(await runStep('highlights', () => purgeExpiredHighlights(midnight)));
+  steps.push(await runStep('notifications', () => purgeExpiredNotifications(midnight)));
+  steps.push(await runStep('approvedStories', purgeExpiredStories));
+  steps.push(await runStep('connections', expireConnections));
+
+  const report: DailyResetReport = {
+    resetDate: reportRef.id,
+    midnight,
+    startedAt,
+    finishedAt: Date.now(),
+    success: steps.every((step) => !step.error),
+    steps
+  };
+
+  try {
+    await reportRef.set(report);
+  } catch (error) {
+    console.error('Failed to write daily reset report:', error);
+  }
+
+  return report;
+}
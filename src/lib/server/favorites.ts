@@ -0,0 +1,291 @@
+/**
+ * Server Favorites
+ * Favorite lookups and the authoritative favorite/unfavorite transactions with the Admin SDK
+ */
+
+import { FieldPath } from 'firebase-admin/firestore';
+import { adminDb } from './firebaseAdmin';
+import { writeSystemMessage } from './chatMessages';
+import { formatDailyId, getNextMidnight, getTodayDateString } from '../dailyId';
+import { generateChatId } from '../chatUtils';
+import { generateConnectionId, generateConnectionToken, isConnectionLocked } from '../connectionUtils';
+import { getLongestStreak, isStreakAlive, resolveStreakRenewal } from '../streaks';
+import type { Connection, Favorite, FavoriteActionResult, UserFavorites } from '@/types/favorites';
+
+export interface FavoriteChange extends FavoriteActionResult {
+  failure?: 'already-favorited' | 'not-favorited' | 'locked';
+}
+
+/**
+ * Check whether a user currently favorites a daily ID
+ */
+export async function hasFavoritedDailyId(userId: string, dailyId: string): Promise<boolean> {
+  const favoritesDoc = await adminDb.collection('userFavorites').doc(userId).get();
+  const favorites = favoritesDoc.exists ? (favoritesDoc.data() as UserFavorites).favorites : undefined;
+  return Boolean(favorites?.[dailyId]);
+}
+
+/**
+ * Check that two users favorite each other's current daily IDs
+ */
+export async function isMutualFavorite(
+  userId: string,
+  dailyId: string,
+  otherUserId: string,
+  otherDailyId: string
+): Promise<boolean> {
+  const [mine, theirs] = await Promise.all([
+    hasFavoritedDailyId(userId, otherDailyId),
+    hasFavoritedDailyId(otherUserId, dailyId)
+  ]);
+  return mine && theirs;
+}
+
+/**
+ * Read the connection between two users (null if they never connected)
+ */
+export async function getConnectionBetween(userId: string, otherUserId: string): Promise<Connection | null> {
+  const connectionDoc = await adminDb.collection('connections').doc(generateConnectionId(userId, otherUserId)).get();
+  return connectionDoc.exists ? (connectionDoc.data() as Connection) : null;
+}
+
+/**
+ * Connections a user is part of that are active or still in their post-expiry grace period
+ */
+export async function getCurrentConnections(userId: string): Promise<Connection[]> {
+  const snapshot = await adminDb.collection('connections').where('userIds', 'array-contains', userId).get();
+  return snapshot.docs
+    .map((connectionDoc) => connectionDoc.data() as Connection)
+    .filter((connection) => connection.status === 'active' || connection.status === 'expired');
+}
+
+/**
+ * Find one of a user's current connections by its token (null if it is not theirs)
+ */
+export async function findCurrentConnection(userId: string, connectionToken: string): Promise<Connection | null> {
+  const connections = await getCurrentConnections(userId);
+  return connections.find((connection) => connection.connectionToken === connectionToken) ?? null;
+}
+
+/**
+ * The other user in a connection
+ */
+export function getConnectionPartnerId(connection: Connection, userId: string): string {
+  return connection.userIds[0] === userId ? connection.userIds[1] : connection.userIds[0];
+}
+
+/**
+ * Whether a streak can still be extended (renewed today or yesterday, or a freeze covers the gap)
+ */
+export function isStreakActive(connection: Connection): boolean {
+  return connection.status === 'active' && isStreakAlive(connection, getTodayDateString());
+}
+
+/**
+ * Favorite another user's daily ID and create or renew the connection when it becomes mutual
+ * A mutual favorite locks the connection until the next reset.
+ */
+export async function addFavorite(
+  userId: string,
+  userDailyId: string,
+  otherUserId: string,
+  favoritedDailyId: string
+): Promise<FavoriteChange> {
+  const favoritesRef = adminDb.collection('userFavorites').doc(userId);
+  const otherFavoritesRef = adminDb.collection('userFavorites').doc(otherUserId);
+  const connectionRef = adminDb.collection('connections').doc(generateConnectionId(userId, otherUserId));
+
+  return adminDb.runTransaction(async (transaction): Promise<FavoriteChange> => {
+    const [favoritesDoc, otherFavoritesDoc, connectionDoc] = await Promise.all([
+      transaction.get(favoritesRef),
+      transaction.get(otherFavoritesRef),
+      transaction.get(connectionRef)
+    ]);
+
+    const now = Date.now();
+    const today = getTodayDateString();
+    const currentFavorites = favoritesDoc.exists
+      ? (favoritesDoc.data() as UserFavorites)
+      : { userId, favorites: {}, updatedAt: now };
+
+    if (currentFavorites.favorites[favoritedDailyId]) {
+      return { success: false, failure: 'already-favorited', message: 'Already favorited this user' };
+    }
+
+    const existingConnection = connectionDoc.exists ? (connectionDoc.data() as Connection) : null;
+    if (existingConnection && isConnectionLocked(existingConnection, now)) {
+      return {
+        success: false,
+        failure: 'locked',
+        message: 'Connection is locked. Please wait for the 24-hour period to expire.',
+        isLocked: true,
+        lockExpiresAt: existingConnection.lockExpiresAt!
+      };
+    }
+
+    const newFavorite: Favorite = { userId, favoritedDailyId, createdAt: now, userDailyId };
+    currentFavorites.favorites[favoritedDailyId] = newFavorite;
+    currentFavorites.updatedAt = now;
+    transaction.set(favoritesRef, currentFavorites);
+
+    const otherFavorites = otherFavoritesDoc.exists ? (otherFavoritesDoc.data() as UserFavorites).favorites : {};
+    if (!otherFavorites[userDailyId]) {
+      // Not mutual yet: still record this side's favorite in the connection's history
+      if (existingConnection) {
+        transaction.update(connectionRef, new FieldPath('favoriteHistory', today, userId), true);
+      }
+      return { success: true, message: 'Favorite added successfully', mutualConnection: false };
+    }
+
+    const lockExpiresAt = getNextMidnight().getTime(); // Lock until the next reset
+    const favoritedToday = { [userId]: true, [otherUserId]: true } as const;
+
+    if (!existingConnection) {
+      const connectionToken = generateConnectionToken();
+      const newConnection: Connection = {
+        connectionToken,
+        userIds: [userId, otherUserId].sort() as [string, string],
+        createdAt: now,
+        lastMutualFavoriteAt: now,
+        streakCount: 1,
+        freezeBalance: 0,
+        longestStreak: 1,
+        favoriteHistory: { [today]: favoritedToday },
+        isLocked: true,
+        lockExpiresAt,
+        lastStreakDate: today,
+        status: 'active'
+      };
+      transaction.set(connectionRef, newConnection);
+
+      return {
+        success: true,
+        message: 'Mutual connection established! 🎉',
+        mutualConnection: true,
+        connectionToken,
+        isLocked: true,
+        lockExpiresAt,
+        streakCount: 1
+      };
+    }
+
+    // Consecutive day (or one missed day covered by a freeze) extends the streak,
+    // a longer gap restarts it at 1, and a second renewal today keeps it
+    const { streakCount, freezeBalance, outcome } = resolveStreakRenewal(existingConnection, today);
+    const renewedConnection: Connection = {
+      ...existingConnection,
+      lastMutualFavoriteAt: now,
+      streakCount,
+      freezeBalance,
+      longestStreak: Math.max(getLongestStreak(existingConnection), streakCount),
+      favoriteHistory: {
+        ...existingConnection.favoriteHistory,
+        [today]: { ...existingConnection.favoriteHistory?.[today], ...favoritedToday }
+      },
+      isLocked: true,
+      lockExpiresAt,
+      lastStreakDate: today,
+      expiredAt: null,
+      status: 'active'
+    };
+    transaction.set(connectionRef, renewedConnection);
+
+    const streakMessage = outcome === 'extended' || outcome === 'frozen'
+      ? `🔥 ${streakCount}-day streak!`
+      : `Connection renewed! Current streak: ${streakCount}`;
+
+    return {
+      success: true,
+      message: `Mutual connection re-established! ${streakMessage}`,
+      mutualConnection: true,
+      connectionToken: existingConnection.connectionToken,
+      isLocked: true,
+      lockExpiresAt,
+      streakCount,
+      usedStreakFreeze: outcome === 'frozen',
+      freezeBalance
+    };
+  });
+}
+
+/**
+ * Remove a favorite, refusing while the pair's connection is locked
+ */
+export async function removeFavorite(
+  userId: string,
+  otherUserId: string,
+  favoritedDailyId: string
+): Promise<FavoriteChange> {
+  const favoritesRef = adminDb.collection('userFavorites').doc(userId);
+  const connectionRef = adminDb.collection('connections').doc(generateConnectionId(userId, otherUserId));
+
+  return adminDb.runTransaction(async (transaction): Promise<FavoriteChange> => {
+    const [favoritesDoc, connectionDoc] = await Promise.all([
+      transaction.get(favoritesRef),
+      transaction.get(connectionRef)
+    ]);
+
+    const connection = connectionDoc.exists ? (connectionDoc.data() as Connection) : null;
+    if (connection && isConnectionLocked(connection)) {
+      return {
+        success: false,
+        failure: 'locked',
+        message: 'Connection is locked until midnight',
+        isLocked: true,
+        lockExpiresAt: connection.lockExpiresAt!
+      };
+    }
+
+    const favorites = favoritesDoc.exists ? (favoritesDoc.data() as UserFavorites) : null;
+    if (!favorites?.favorites[favoritedDailyId]) {
+      return { success: false, failure: 'not-favorited', message: 'Favorite not found' };
+    }
+
+    delete favorites.favorites[favoritedDailyId];
+    favorites.updatedAt = Date.now();
+    transaction.set(favoritesRef, favorites);
+
+    return { success: true, message: 'Favorite removed successfully' };
+  });
+}
+
+/**
+ * Post the chat's system messages for a favorite that was just added
+ * Both users see the same message when it became mutual, plus a note when a freeze was spent.
+ */
+export async function announceFavorite(
+  userDailyId: string,
+  favoritedDailyId: string,
+  result: FavoriteChange
+): Promise<void> {
+  const chatId = generateChatId(userDailyId, favoritedDailyId);
+
+  if (!result.mutualConnection) {
+    await writeSystemMessage(
+      chatId,
+      `⭐ ${formatDailyId(userDailyId)} added ${formatDailyId(favoritedDailyId)} to favorites`
+    );
+    return;
+  }
+
+  const streakInfo = result.streakCount && result.streakCount > 1 ? ` 🔥 ${result.streakCount}-day streak!` : '';
+  await writeSystemMessage(chatId, `💫 You both favorited each other! Connection established!${streakInfo}`);
+
+  if (result.usedStreakFreeze) {
+    const freezesLeft = result.freezeBalance ?? 0;
+    await writeSystemMessage(
+      chatId,
+      `🧊 A streak freeze covered the day you missed. ${freezesLeft} freeze${freezesLeft === 1 ? '' : 's'} left.`
+    );
+  }
+}
+
+/**
+ * Post the chat's system message for a removed favorite
+ */
+export async function announceUnfavorite(userDailyId: string, favoritedDailyId: string): Promise<void> {
+  await writeSystemMessage(
+    generateChatId(userDailyId, favoritedDailyId),
+    `💔 ${formatDailyId(userDailyId)} removed ${formatDailyId(favoritedDailyId)} from favorites`
+  );
+}
@@ -0,0 +1,38 @@
+/**
+ * Firebase Admin SDK - Server-only initialization
+ * Used by route handlers and scheduled jobs that must bypass client rules.
+ * Never import this module from client components.
+ */
+
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+import { getDatabase } from 'firebase-admin/database';
+import { getFirestore } from 'firebase-admin/firestore';
+
+const projectId = process.env.FIREBASE_ADMIN_PROJECT_ID || process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+const clientEmail = process.env.FIREBASE_ADMIN_CLIENT_EMAIL;
+// Private keys are stored with escaped newlines in most hosting dashboards
+const privateKey = process.env.FIREBASE_ADMIN_PRIVATE_KEY?.replace(/\\n/g, '\n');
+
+const existingApps = getApps();
+const adminApp = existingApps.length > 0
+  ? existingApps[0]
+  : initializeApp({
+      // Fall back to application default credentials when no service account is configured
+      ...(clientEmail && privateKey
+        ? { credential: cert({ projectId, clientEmail, privateKey }) }
+        : {}),
+      projectId,
+      databaseURL: process.env.NEXT_PUBLIC_FIREBASE_DATABASE_URL
+    });
+
+// Admin Auth (ID token verification)
+export const adminAuth = getAuth(adminApp);
+
+// Admin Realtime Database
+export const adminDatabase = getDatabase(adminApp);
+
+// Admin Firestore
+export const adminDb = getFirestore(adminApp);
+
+export default adminApp;
@@ -0,0 +1,41 @@
+/**
+ * Server Highlights
+ * Highlight lookups and story-queue cleanup that must reach both participants' data
+ */
+
+import { adminDb } from './firebaseAdmin';
+import { generateStoryId } from '../chatUtils';
+import type { QueuedStory } from '@/types/highlights';
+
+/**
+ * Check whether a user currently highlights a message
+ */
+export async function hasHighlightedMessage(userId: string, messageId: string): Promise<boolean> {
+  const highlightDoc = await adminDb.collection('highlights').doc(userId).collection('messages').doc(messageId).get();
+  return highlightDoc.exists;
+}
+
+/**
+ * Withdraw a message that was edited or unsent
+ * Deletes every participant's highlight of it and its story if that is still pending review.
+ */
+export async function withdrawMessageHighlights(
+  chatId: string,
+  messageId: string,
+  userIds: string[]
+): Promise<void> {
+  const storyRef = adminDb.collection('queuedStories').doc(generateStoryId(chatId, messageId));
+
+  await adminDb.runTransaction(async (transaction) => {
+    const storyDoc = await transaction.get(storyRef);
+    const story = storyDoc.exists ? (storyDoc.data() as QueuedStory) : null;
+
+    userIds.forEach((userId) => {
+      transaction.delete(adminDb.collection('highlights').doc(userId).collection('messages').doc(messageId));
+    });
+
+    if (story?.status === 'pending') {
+      transaction.delete(storyRef);
+    }
+  });
+}
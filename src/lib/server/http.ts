@@ -0,0 +1,39 @@
+/**
+ * Route Handler Helpers
+ * Consistent JSON responses for API routes
+ */
+
+import { NextResponse } from 'next/server';
+import type { ApiErrorCode, ApiErrorBody } from '@/types/api';
+
+/**
+ * Build a JSON success response (`{ success: true, ...data }`)
+ */
+export function jsonOk<T extends object>(data: T, status = 200) {
+  return NextResponse.json({ success: true, ...data }, { status });
+}
+
+/**
+ * Build a JSON error response
+ */
+export function jsonError(
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  details?: Record<string, unknown>
+) {
+  const body: ApiErrorBody = { success: false, code, message, ...(details ? { details } : {}) };
+  return NextResponse.json(body, { status });
+}
+
+/**
+ * Parse a JSON request body, returning null when it is missing or malformed
+ */
+export async function readJsonBody<T>(request: Request): Promise<Partial<T> | null> {
+  try {
+    const body = await request.json();
+    return body && typeof body === 'object' ? (body as Partial<T>) : null;
+  } catch {
+    return null;
+  }
+}
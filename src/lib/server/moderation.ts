@@ -0,0 +1,114 @@
+/**
+ * Server Moderation
+ * Blocks and reports written with the Admin SDK so clients cannot forge them
+ */
+
+import { adminDatabase, adminDb } from './firebaseAdmin';
+import { getBanScope, isBanActive } from '../bans';
+import type { BlockRecord, Report, ReportMessageContext, ReportReason, UserBan } from '@/types/moderation';
+import type { Message } from '@/types/chat';
+
+// Recent messages copied into a report for context
+const REPORT_CONTEXT_MESSAGES = 20;
+
+/**
+ * Check whether either user has blocked the other
+ */
+export async function isBlockedBetween(userIdA: string, userIdB: string): Promise<boolean> {
+  const [aBlockedB, bBlockedA] = await Promise.all([
+    adminDb.collection('blocks').doc(userIdA).collection('blocked').doc(userIdB).get(),
+    adminDb.collection('blocks').doc(userIdB).collection('blocked').doc(userIdA).get()
+  ]);
+
+  return aBlockedB.exists || bBlockedA.exists;
+}
+
+/**
+ * Get the user's ban if it is still in effect
+ */
+export async function getActiveBan(userId: string): Promise<UserBan | null> {
+  const banDoc = await adminDb.collection('bans').doc(userId).get();
+  const ban = banDoc.exists ? (banDoc.data() as UserBan) : null;
+  return isBanActive(ban) ? ban : null;
+}
+
+/**
+ * Error details returned alongside a `banned` API error
+ */
+export function getBanDetails(ban: UserBan): Record<string, unknown> {
+  return { scope: getBanScope(ban), reason: ban.reason, expiresAt: ban.expiresAt };
+}
+
+/**
+ * Block a user by UID (idempotent)
+ * Also mirrored to `blocks/{blocked}/blockedBy/{blocker}` so the blocked user's client can hide the blocker.
+ */
+export async function blockUser(blockerId: string, blockedUserId: string, blockedDailyId: string): Promise<void> {
+  const block: BlockRecord = {
+    blockerId,
+    blockedUserId,
+    blockedDailyId,
+    createdAt: Date.now()
+  };
+
+  const batch = adminDb.batch();
+  batch.set(adminDb.collection('blocks').doc(blockerId).collection('blocked').doc(blockedUserId), block);
+  batch.set(adminDb.collection('blocks').doc(blockedUserId).collection('blockedBy').doc(blockerId), {
+    createdAt: block.createdAt
+  });
+  await batch.commit();
+}
+
+/**
+ * Copy the most recent user messages of a chat (oldest first)
+ */
+async function getReportContext(chatId: string): Promise<ReportMessageContext[]> {
+  const snapshot = await adminDatabase
+    .ref(`chats/${chatId}/messages`)
+    .orderByChild('timestamp')
+    .limitToLast(REPORT_CONTEXT_MESSAGES)
+    .get();
+
+  const messages: ReportMessageContext[] = [];
+  snapshot.forEach((child) => {
+    const message = child.val() as Message;
+    if (!message.isSystemMessage) {
+      messages.push({
+        senderId: message.senderId,
+        text: message.text,
+        timestamp: message.timestamp
+      });
+    }
+  });
+
+  return messages;
+}
+
+/**
+ * File a report into the admin moderation queue
+ */
+export async function fileReport(input: {
+  reporterId: string;
+  reporterDailyId: string;
+  reportedUserId: string;
+  reportedDailyId: string;
+  chatId: string;
+  reason: ReportReason;
+  details?: string;
+}): Promise<string> {
+  const reportRef = adminDb.collection('reports').doc();
+  const messages = await getReportContext(input.chatId);
+
+  const { details, ...fields } = input;
+  const report: Report = {
+    reportId: reportRef.id,
+    ...fields,
+    ...(details ? { details } : {}), // Firestore rejects undefined fields
+    messages,
+    status: 'open',
+    createdAt: Date.now()
+  };
+
+  await reportRef.set(report);
+  return reportRef.id;
+}
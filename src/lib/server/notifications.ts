@@ -0,0 +1,89 @@
+/**
+ * Server Notification Center
+ * Writes in-app notification entries with the Admin SDK
+ */
+
+import { adminDb } from './firebaseAdmin';
+import type { AppNotification, AppNotificationEvent } from '@/types/notifications';
+
+/**
+ * Fixed copy, deep link and entry ID for an event
+ * The ID is stable per event, so reporting it again marks it unread instead of duplicating it.
+ */
+export function buildAppNotification(event: AppNotificationEvent): Omit<AppNotification, 'read' | 'createdAt'> {
+  switch (event.type) {
+    case 'mutual-connection':
+      return {
+        id: `mutual-${event.otherDailyId}`,
+        type: event.type,
+        title: "It's mutual 💫",
+        body: `You and ${event.otherDailyId} favorited each other`,
+        url: `/chat/${event.otherDailyId}`
+      };
+    case 'streak-extended':
+      return {
+        id: `streak-${event.otherDailyId}`,
+        type: event.type,
+        title: 'Streak extended 🔥',
+        body: `Your streak with ${event.otherDailyId} is now ${event.streakCount} days`,
+        url: `/chat/${event.otherDailyId}`
+      };
+    case 'streak-lost':
+      return {
+        id: `streak-lost-${event.connectionToken}`,
+        type: event.type,
+        title: 'Streak lost 🥀',
+        body: `Your ${event.streakCount}-day streak ended. Favorite each other again to start a new one.`,
+        url: '/connections'
+      };
+    case 'mutual-highlight':
+      return {
+        id: `highlight-${event.storyId}`,
+        type: event.type,
+        title: 'Highlight is mutual ✨',
+        body: `You and ${event.otherDailyId} highlighted the same message. It is waiting for review.`,
+        url: `/chat/${event.otherDailyId}`
+      };
+    case 'story-approved':
+      return {
+        id: `story-${event.storyId}`,
+        type: event.type,
+        title: 'Your story is live ✨',
+        body: 'A message you both highlighted was approved for Stories',
+        url: '/stories'
+      };
+    case 'story-rejected':
+      return {
+        id: `story-${event.storyId}`,
+        type: event.type,
+        title: 'Story not approved',
+        body: 'A message you both highlighted was not approved for Stories',
+        url: '/stories'
+      };
+    case 'support-reply':
+      return {
+        id: `support-${event.supportDailyId}`,
+        type: event.type,
+        title: 'Support replied',
+        body: 'You have a new reply from GhostMate Support',
+        url: `/chat/${event.supportDailyId}`
+      };
+  }
+}
+
+/**
+ * Add (or refresh as unread) an entry in a user's notification center
+ * Never throws: notifications are best-effort. Returns whether the entry was written.
+ */
+export async function createAppNotification(userId: string, event: AppNotificationEvent): Promise<boolean> {
+  const { id, ...entry } = buildAppNotification(event);
+
+  try {
+    const notification: AppNotification = { id, ...entry, read: false, createdAt: Date.now() };
+    await adminDb.collection('notifications').doc(userId).collection('items').doc(id).set(notification);
+    return true;
+  } catch (error) {
+    console.error(`Error creating ${event.type} notification:`, error);
+    return false;
+  }
+}
@@ -0,0 +1,235 @@
+/**
+ * Server Web Push
+ *
+ * Subscriptions are stored per Firebase UID in `pushSubscriptions/{uid}/devices`.
+ * Delivery goes through a PushSender so the Web Push (VAPID) transport can be
+ * swapped for a local stand-in: set PUSH_STANDIN_URL to receive every push as
+ * a JSON POST instead, or call setPushSender() from a test harness.
+ */
+
+import { createHash } from 'crypto';
+import webpush, { WebPushError } from 'web-push';
+import { adminDb } from './firebaseAdmin';
+import { getResetTimeLabel } from '../resetClock';
+import { PUSH_TTL_SECONDS, PUSH_VAPID_PUBLIC_KEY } from '@/config/push';
+import type {
+  PushEvent,
+  PushPayload,
+  PushSubscriptionRecord,
+  StoredPushSubscription
+} from '@/types/push';
+
+export type PushDeliveryResult = 'delivered' | 'expired' | 'failed';
+
+/**
+ * Transport that hands one payload to one subscribed device
+ * `expired` means the subscription is gone for good and should be deleted.
+ */
+export interface PushSender {
+  send(subscription: PushSubscriptionRecord, payload: PushPayload): Promise<PushDeliveryResult>;
+}
+
+/**
+ * Web Push (VAPID) transport
+ */
+export function createWebPushSender(publicKey: string, privateKey: string, subject: string): PushSender {
+  return {
+    async send(subscription, payload) {
+      try {
+        await webpush.sendNotification(subscription, JSON.stringify(payload), {
+          TTL: PUSH_TTL_SECONDS,
+          vapidDetails: { subject, publicKey, privateKey }
+        });
+        return 'delivered';
+      } catch (error) {
+        if (error instanceof WebPushError && (error.statusCode === 404 || error.statusCode === 410)) {
+          return 'expired';
+        }
+        console.error('Web push delivery failed:', error);
+        return 'failed';
+      }
+    }
+  };
+}
+
+/**
+ * Local stand-in transport: POSTs `{ endpoint, payload }` to a URL
+ * Respond 404/410 from the stand-in to simulate an expired subscription.
+ */
+export function createStandInPushSender(url: string): PushSender {
+  return {
+    async send(subscription, payload) {
+      try {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ endpoint: subscription.endpoint, payload })
+        });
+        if (response.status === 404 || response.status === 410) {
+          return 'expired';
+        }
+        return response.ok ? 'delivered' : 'failed';
+      } catch (error) {
+        console.error('Push stand-in delivery failed:', error);
+        return 'failed';
+      }
+    }
+  };
+}
+
+let senderOverride: PushSender | null | undefined;
+
+/**
+ * Replace the configured transport (null disables push); undefined restores the default
+ */
+export function setPushSender(sender: PushSender | null | undefined): void {
+  senderOverride = sender;
+}
+
+/**
+ * Transport chosen from the environment (null when push is not configured)
+ */
+export function getPushSender(): PushSender | null {
+  if (senderOverride !== undefined) {
+    return senderOverride;
+  }
+
+  if (process.env.PUSH_STANDIN_URL) {
+    return createStandInPushSender(process.env.PUSH_STANDIN_URL);
+  }
+
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!PUSH_VAPID_PUBLIC_KEY || !privateKey) {
+    return null;
+  }
+
+  return createWebPushSender(
+    PUSH_VAPID_PUBLIC_KEY,
+    privateKey,
+    process.env.VAPID_SUBJECT || 'mailto:admin@ghostmate.com'
+  );
+}
+
+/**
+ * Fixed notification copy for an event
+ * Never includes message text or account identity.
+ */
+export function buildPushPayload(event: PushEvent): PushPayload {
+  switch (event.type) {
+    case 'new-message':
+      return {
+        type: event.type,
+        title: 'New message',
+        body: 'Someone sent you a message on GhostMate',
+        url: `/chat/${event.senderDailyId}`,
+        tag: `chat-${event.chatId}`
+      };
+    case 'mutual-favorite':
+      return {
+        type: event.type,
+        title: "It's mutual 💫",
+        body: 'Someone you favorited favorited you back',
+        url: `/chat/${event.otherDailyId}`,
+        tag: `mutual-${event.otherDailyId}`
+      };
+    case 'streak-at-risk':
+      return {
+        type: event.type,
+        title: 'Your streak is at risk 🔥',
+        body: `Favorite each other again before ${getResetTimeLabel()} to keep your ${event.streakCount}-day streak`,
+        url: '/',
+        tag: 'streak-at-risk'
+      };
+    case 'story-approved':
+      return {
+        type: event.type,
+        title: 'Your story is live ✨',
+        body: 'A message you both highlighted was approved for Stories',
+        url: '/stories',
+        tag: `story-${event.storyId}`
+      };
+  }
+}
+
+function devicesCollection(userId: string) {
+  return adminDb.collection('pushSubscriptions').doc(userId).collection('devices');
+}
+
+function getDeviceId(endpoint: string): string {
+  return createHash('sha256').update(endpoint).digest('hex');
+}
+
+/**
+ * Check the shape of a PushSubscription.toJSON() sent by a browser
+ */
+export function isValidPushSubscription(value: unknown): value is PushSubscriptionRecord {
+  const subscription = value as Partial<PushSubscriptionRecord> | null;
+  return (
+    typeof subscription?.endpoint === 'string' &&
+    subscription.endpoint.startsWith('https://') &&
+    typeof subscription.keys?.p256dh === 'string' &&
+    typeof subscription.keys?.auth === 'string'
+  );
+}
+
+/**
+ * Store (or refresh) a device subscription for a user
+ */
+export async function savePushSubscription(userId: string, subscription: PushSubscriptionRecord): Promise<void> {
+  const deviceRef = devicesCollection(userId).doc(getDeviceId(subscription.endpoint));
+  const existing = await deviceRef.get();
+  const now = Date.now();
+
+  const stored: StoredPushSubscription = {
+    userId,
+    endpoint: subscription.endpoint,
+    keys: { p256dh: subscription.keys.p256dh, auth: subscription.keys.auth },
+    createdAt: existing.exists ? (existing.data() as StoredPushSubscription).createdAt : now,
+    updatedAt: now
+  };
+
+  await deviceRef.set(stored);
+}
+
+/**
+ * Remove a device subscription (no-op if it is not stored)
+ */
+export async function deletePushSubscription(userId: string, endpoint: string): Promise<void> {
+  await devicesCollection(userId).doc(getDeviceId(endpoint)).delete();
+}
+
+/**
+ * Send an event to every device of a user
+ * Expired subscriptions are pruned. Never throws: push is best-effort.
+ * Returns how many devices accepted the notification.
+ */
+export async function sendPushToUser(userId: string, event: PushEvent): Promise<number> {
+  const sender = getPushSender();
+  if (!sender) {
+    return 0;
+  }
+
+  try {
+    const devices = await devicesCollection(userId).get();
+    if (devices.empty) {
+      return 0;
+    }
+
+    const payload = buildPushPayload(event);
+    const results = await Promise.all(
+      devices.docs.map(async (deviceDoc) => {
+        const { endpoint, keys } = deviceDoc.data() as StoredPushSubscription;
+        const result = await sender.send({ endpoint, keys }, payload);
+        if (result === 'expired') {
+          await deviceDoc.ref.delete();
+        }
+        return result;
+      })
+    );
+
+    return results.filter((result) => result === 'delivered').length;
+  } catch (error) {
+    console.error(`Error sending ${event.type} push:`, error);
+    return 0;
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Realtime Database paging - walk large trees without reading them whole
+ * Server-only: uses the Admin SDK.
+ */
+
+import { adminDatabase } from './firebaseAdmin';
+
+const RTDB_PAGE_SIZE = 200;
+
+/**
+ * Visit the children of a realtime database path one key-ordered page at a time
+ */
+export async function forEachChildPage<T>(
+  path: string,
+  visit: (page: Record<string, T>) => Promise<void>
+): Promise<void> {
+  let lastKey: string | null = null;
+
+  for (;;) {
+    const pageQuery = adminDatabase.ref(path).orderByKey();
+    const snapshot = await (lastKey === null ? pageQuery : pageQuery.startAfter(lastKey))
+      .limitToFirst(RTDB_PAGE_SIZE)
+      .get();
+
+    const page: Record<string, T> = {};
+    snapshot.forEach((child) => {
+      page[child.key!] = child.val();
+      lastKey = child.key;
+    });
+
+    if (Object.keys(page).length === 0) {
+      return;
+    }
+
+    await visit(page);
+
+    if (Object.keys(page).length < RTDB_PAGE_SIZE) {
+      return;
+    }
+  }
+}
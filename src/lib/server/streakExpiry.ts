@@ -0,0 +1,73 @@
+/**
+ * Streak Expiry
+ * Moves connections through active -> expired -> broken at the daily reset
+ */
+
+import { adminDb } from './firebaseAdmin';
+import { createAppNotification } from './notifications';
+import { getTodayDateString } from '../dailyId';
+import { isStreakAlive } from '../streaks';
+import { EXPIRED_CONNECTION_GRACE_DAYS, STREAK_LOST_NOTIFY_MIN } from '@/config/streaks';
+import type { Connection } from '@/types/favorites';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface StreakExpiryReport {
+  expired: number; // Active connections whose streak lapsed
+  broken: number; // Expired connections past the grace period
+  notified: number; // Users told their streak was lost
+}
+
+/**
+ * Expire active connections not renewed yesterday (unless a freeze covers it) and break those
+ * expired longer than the grace period. Expiring clears the lock and tells both users about a
+ * lost streak. Safe to re-run.
+ */
+export async function expireLapsedConnections(now: number = Date.now()): Promise<StreakExpiryReport> {
+  const today = getTodayDateString();
+  const graceCutoff = now - EXPIRED_CONNECTION_GRACE_DAYS * DAY_MS;
+  const report: StreakExpiryReport = { expired: 0, broken: 0, notified: 0 };
+
+  const [activeSnapshot, expiredSnapshot] = await Promise.all([
+    adminDb.collection('connections').where('status', '==', 'active').get(),
+    adminDb.collection('connections').where('status', '==', 'expired').get()
+  ]);
+
+  for (const connectionDoc of activeSnapshot.docs) {
+    const connection = connectionDoc.data() as Connection;
+    if (isStreakAlive(connection, today)) {
+      continue;
+    }
+
+    await connectionDoc.ref.update({
+      status: 'expired',
+      isLocked: false,
+      lockExpiresAt: null,
+      expiredAt: now
+    });
+    report.expired += 1;
+
+    if (connection.streakCount >= STREAK_LOST_NOTIFY_MIN) {
+      const notified = await Promise.all(
+        connection.userIds.map((userId) =>
+          createAppNotification(userId, {
+            type: 'streak-lost',
+            connectionToken: connection.connectionToken,
+            streakCount: connection.streakCount
+          })
+        )
+      );
+      report.notified += notified.filter(Boolean).length;
+    }
+  }
+
+  for (const connectionDoc of expiredSnapshot.docs) {
+    const { expiredAt } = connectionDoc.data() as Connection;
+    if (!expiredAt || expiredAt <= graceCutoff) {
+      await connectionDoc.ref.update({ status: 'broken' });
+      report.broken += 1;
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,59 @@
+/**
+ * Streak Reminders
+ * Push both users of a streak that has not been renewed today, shortly before the reset
+ */
+
+import { adminDb } from './firebaseAdmin';
+import { sendPushToUser } from './push';
+import { getTodayDateString } from '../dailyId';
+import { getNextResetStart, shiftDateString } from '../resetClock';
+import { isStreakAlive } from '../streaks';
+import { STREAK_REMINDER_LEAD_MS } from '@/config/push';
+import type { Connection } from '@/types/favorites';
+
+export interface StreakReminderReport {
+  checked: number;
+  reminded: number; // Connections whose users were pushed
+  skipped?: boolean; // True when the reset is still too far away
+}
+
+/**
+ * Send at most one streak-at-risk push per connection and reset day
+ */
+export async function sendStreakReminders(now: number = Date.now()): Promise<StreakReminderReport> {
+  if (getNextResetStart().getTime() - now > STREAK_REMINDER_LEAD_MS) {
+    return { checked: 0, reminded: 0, skipped: true };
+  }
+
+  const today = getTodayDateString();
+  // Renewed yesterday (or the day before, with a freeze covering yesterday) but not yet
+  // today: the streak breaks at the next reset
+  const snapshot = await adminDb
+    .collection('connections')
+    .where('lastStreakDate', 'in', [shiftDateString(today, -1), shiftDateString(today, -2)])
+    .get();
+
+  let reminded = 0;
+
+  for (const connectionDoc of snapshot.docs) {
+    const connection = connectionDoc.data() as Connection;
+    if (
+      connection.status !== 'active' ||
+      connection.streakCount < 1 ||
+      connection.streakReminderDate === today ||
+      !isStreakAlive(connection, today)
+    ) {
+      continue;
+    }
+
+    await connectionDoc.ref.update({ streakReminderDate: today });
+    await Promise.all(
+      connection.userIds.map((userId) =>
+        sendPushToUser(userId, { type: 'streak-at-risk', streakCount: connection.streakCount })
+      )
+    );
+    reminded += 1;
+  }
+
+  return { checked: snapshot.size, reminded };
+}
@@ -22,6 +22,8 @@ import {
 import { db } from './firebase';
 import { QueuedStory, ApprovedStory } from '@/types/highlights';
 import { getNextMidnight } from './dailyId';
+import { getResetTimeLabel } from './resetClock';
+import { notifyStoryReviewed } from './notificationsService';
 
 /**
  * Get all queued stories (pending admin review)
@@ -97,7 +99,7 @@ export async function approveStory(
       
       if (expiresAt > now) {
         // Story is still locked, cannot approve
-        return { success: false, message: 'Story is still locked. Wait until midnight PKT.' };
+        return { success: false, message: `Story is still locked. Wait until ${getResetTimeLabel()}.` };
       }
     }
     
@@ -123,6 +125,10 @@ export async function approveStory(
       reviewedBy: adminId,
     });
     
+    notifyStoryReviewed(storyId).catch((err) =>
+      console.error('Error sending story notification:', err)
+    );
+    
     return { success: true, message: 'Story approved successfully' };
   } catch (error: any) {
     console.error('Error approving story:', error);
@@ -149,6 +155,10 @@ export async function rejectStory(
       rejectionReason: reason || 'Not approved for public feed',
     });
     
+    notifyStoryReviewed(storyId).catch((err) =>
+      console.error('Error sending story notification:', err)
+    );
+    
     return { success: true, message: 'Story rejected' };
   } catch (error: any) {
     console.error('Error rejecting story:', error);
@@ -0,0 +1,110 @@
+/**
+ * Streak Rules
+ * Pure helpers for renewing, freezing and expiring connection streaks and for
+ * their history and milestones (used by both the client and the server)
+ */
+
+import { shiftDateString } from './resetClock';
+import { STREAK_FREEZE_EARN_DAYS, STREAK_FREEZE_MAX, STREAK_MILESTONES } from '@/config/streaks';
+import type { Connection, ConnectionHistoryDay } from '@/types/favorites';
+
+export type StreakRenewalOutcome = 'kept' | 'extended' | 'frozen' | 'restarted';
+
+export interface StreakRenewal {
+  streakCount: number;
+  freezeBalance: number;
+  outcome: StreakRenewalOutcome; // `frozen`: a freeze covered the missed day
+  earnedFreeze: boolean;
+}
+
+type StreakState = Pick<Connection, 'lastStreakDate' | 'streakCount' | 'freezeBalance'>;
+
+/**
+ * Whether a freeze can cover the single day missed before `today`
+ */
+export function canFreezeCover(connection: StreakState, today: string): boolean {
+  return (connection.freezeBalance ?? 0) > 0 && connection.lastStreakDate === shiftDateString(today, -2);
+}
+
+/**
+ * Whether the streak survives if the pair favorites each other again today
+ */
+export function isStreakAlive(connection: StreakState, today: string): boolean {
+  return (
+    connection.lastStreakDate === today ||
+    connection.lastStreakDate === shiftDateString(today, -1) ||
+    canFreezeCover(connection, today)
+  );
+}
+
+/**
+ * Next streak state when the pair favorites each other again today
+ * A freeze is earned every STREAK_FREEZE_EARN_DAYS streak days, up to STREAK_FREEZE_MAX.
+ */
+export function resolveStreakRenewal(connection: StreakState, today: string): StreakRenewal {
+  const freezeBalance = connection.freezeBalance ?? 0;
+
+  if (connection.lastStreakDate === today) {
+    return { streakCount: connection.streakCount, freezeBalance, outcome: 'kept', earnedFreeze: false };
+  }
+
+  if (!isStreakAlive(connection, today)) {
+    return { streakCount: 1, freezeBalance, outcome: 'restarted', earnedFreeze: false };
+  }
+
+  const frozen = connection.lastStreakDate !== shiftDateString(today, -1);
+  const streakCount = connection.streakCount + 1;
+  const balanceAfterUse = frozen ? freezeBalance - 1 : freezeBalance;
+  const earnedFreeze = streakCount % STREAK_FREEZE_EARN_DAYS === 0 && balanceAfterUse < STREAK_FREEZE_MAX;
+
+  return {
+    streakCount,
+    freezeBalance: balanceAfterUse + (earnedFreeze ? 1 : 0),
+    outcome: frozen ? 'frozen' : 'extended',
+    earnedFreeze
+  };
+}
+
+/**
+ * Longest streak a connection has reached, including the one in progress
+ */
+export function getLongestStreak(connection: Pick<Connection, 'streakCount' | 'longestStreak'>): number {
+  return Math.max(connection.longestStreak ?? 0, connection.streakCount);
+}
+
+/**
+ * Milestone badges (STREAK_MILESTONES) earned by a longest streak
+ */
+export function getStreakMilestones(longestStreak: number): number[] {
+  return STREAK_MILESTONES.filter((milestone) => longestStreak >= milestone);
+}
+
+/**
+ * The last `days` reset days ending today, oldest first
+ */
+export function getHistoryDates(today: string, days: number): string[] {
+  return Array.from({ length: days }, (_, index) => shiftDateString(today, index - days + 1));
+}
+
+/**
+ * Recent favorite history from one user's side, without revealing the other user's ID
+ */
+export function summarizeFavoriteHistory(
+  history: Connection['favoriteHistory'],
+  viewerId: string,
+  today: string,
+  days: number
+): Record<string, ConnectionHistoryDay> {
+  const summary: Record<string, ConnectionHistoryDay> = {};
+
+  getHistoryDates(today, days).forEach((date) => {
+    const favoritedBy = Object.keys(history?.[date] ?? {});
+    if (favoritedBy.length === 0) return;
+
+    const mine = favoritedBy.includes(viewerId);
+    const theirs = favoritedBy.some((userId) => userId !== viewerId);
+    summary[date] = mine && theirs ? 'both' : mine ? 'mine' : 'theirs';
+  });
+
+  return summary;
+}
@@ -0,0 +1,214 @@
+/**
+ * API Route Types
+ * Shared request/response shapes between route handlers and client services
+ */
+
+import type { ChatQuotaBreakdown } from './chatQuota';
+import type { ConnectionSummary } from './favorites';
+import type { ReportReason } from './moderation';
+import type { PushSubscriptionRecord } from './push';
+
+/**
+ * Machine-readable error codes returned by API routes
+ */
+export type ApiErrorCode =
+  | 'unauthenticated'
+  | 'invalid-request'
+  | 'invalid-message'
+  | 'not-daily-id-owner'
+  | 'not-a-participant'
+  | 'chat-not-found'
+  | 'message-not-found'
+  | 'not-message-sender'
+  | 'edit-window-closed'
+  | 'invalid-daily-id'
+  | 'daily-id-not-found'
+  | 'connection-not-found'
+  | 'connection-locked'
+  | 'already-favorited'
+  | 'favorite-not-found'
+  | 'chat-limit-reached'
+  | 'blocked'
+  | 'banned'
+  | 'push-unavailable'
+  | 'forbidden'
+  | 'network-error'
+  | 'internal';
+
+/**
+ * Error body returned by every API route on failure
+ */
+export interface ApiErrorBody {
+  success: false;
+  code: ApiErrorCode;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Response of an API route: `{ success: true, ...data }` or an error body
+ */
+export type ApiResponse<T extends object = object> = ({ success: true } & T) | ApiErrorBody;
+
+/**
+ * POST /api/chats/[chatId]/messages
+ */
+export interface SendMessageRequest {
+  senderId: string; // Sender's daily ID
+  recipientId: string; // Recipient's daily ID
+  text: string;
+  clientMessageId?: string; // Push-style ID from the client outbox; reused as the message ID
+  replyToMessageId?: string; // Earlier message in the same chat to quote
+}
+
+export interface SendMessageResponse {
+  messageId: string;
+  timestamp: number;
+  duplicate?: boolean; // The message was already delivered by an earlier attempt
+}
+
+/**
+ * PATCH /api/chats/{chatId}/messages/{messageId} (edit)
+ * DELETE /api/chats/{chatId}/messages/{messageId} (unsend, without `text`)
+ */
+export interface ChangeMessageRequest {
+  senderId: string; // Sender's daily ID
+  text?: string; // New text (edit only)
+}
+
+export interface ChangeMessageResponse {
+  messageId: string;
+  editedAt?: number;
+  unsentAt?: number;
+}
+
+/**
+ * POST /api/chats/{chatId}/system-messages
+ * Only fixed, server-worded events; favorite messages are posted by /api/favorites itself.
+ */
+export type SystemMessageEvent = 'highlight-added' | 'highlight-removed';
+
+export interface SystemMessageRequest {
+  myDailyId: string;
+  event: SystemMessageEvent;
+  messageId: string; // The highlighted message
+}
+
+export interface SystemMessageResponse {
+  posted: boolean;
+}
+
+/**
+ * POST /api/chats
+ */
+export interface StartChatRequest {
+  myDailyId: string;
+  otherDailyId: string;
+}
+
+export interface StartChatResponse {
+  chatId: string;
+  created: boolean; // False when the chat already existed (no quota used)
+  chatLimit?: {
+    count: number;
+    limit: number;
+    remaining: number;
+    quota: ChatQuotaBreakdown;
+  };
+}
+
+/**
+ * GET /api/connections
+ */
+export interface ListConnectionsResponse {
+  connections: ConnectionSummary[]; // Most recent mutual favorite first
+}
+
+/**
+ * POST /api/connections/[connectionToken]/chat (responds with StartChatResponse)
+ */
+export interface ConnectionChatRequest {
+  myDailyId: string;
+}
+
+/**
+ * POST /api/favorites (favorite)
+ * DELETE /api/favorites (unfavorite; without `myDailyId` no chat message is posted)
+ */
+export interface FavoriteChangeRequest {
+  myDailyId?: string;
+  favoritedDailyId: string;
+}
+
+export interface FavoriteChangeResponse {
+  message: string;
+  mutualConnection: boolean;
+  connectionToken?: string;
+  lockExpiresAt?: number; // Set when the favorite became mutual and locked the connection
+  streakCount?: number;
+  usedStreakFreeze?: boolean;
+  freezeBalance?: number;
+}
+
+/**
+ * `details` of a `connection-locked` error
+ */
+export interface ConnectionLockedDetails {
+  lockExpiresAt: number; // Unix timestamp of the next daily reset
+}
+
+/**
+ * `details` of a `chat-limit-reached` error
+ */
+export interface ChatLimitReachedDetails {
+  count: number;
+  limit: number;
+  resetsAt: number; // Unix timestamp of the next daily reset
+  quota: ChatQuotaBreakdown;
+}
+
+/**
+ * POST /api/chats/[chatId]/block
+ */
+export interface BlockUserRequest {
+  myDailyId: string;
+  otherDailyId: string;
+  report?: {
+    reason: ReportReason;
+    details?: string;
+  };
+}
+
+export interface BlockUserResponse {
+  reportId?: string; // Set when a report was filed
+}
+
+/**
+ * POST /api/push/subscriptions (subscribe this device)
+ * DELETE /api/push/subscriptions (unsubscribe, `endpoint` only)
+ */
+export interface PushSubscriptionRequest {
+  subscription?: PushSubscriptionRecord;
+  endpoint?: string;
+}
+
+/**
+ * POST /api/notifications/mutual-highlight
+ */
+export interface MutualHighlightNotifyRequest {
+  myDailyId: string;
+  chatId: string;
+  messageId: string;
+}
+
+/**
+ * POST /api/notifications/story-reviewed (admins only)
+ */
+export interface StoryReviewedNotifyRequest {
+  storyId: string;
+}
+
+export interface NotifyResponse {
+  notified: number; // Notification center entries written
+  delivered: number; // Devices a push was handed to
+}
@@ -3,6 +3,19 @@
  * Supports one-to-one conversations only (no group chats)
  */
 
+import type { REACTION_EMOJIS } from '@/config/messaging';
+
+export type ReactionEmoji = (typeof REACTION_EMOJIS)[number];
+
+/**
+ * Snapshot of the message being replied to (kept even if the original is deleted)
+ */
+export interface MessageReply {
+  messageId: string;
+  senderId: string; // Daily ID of the original sender
+  excerpt: string; // First REPLY_EXCERPT_LENGTH characters of the original (cleared if it is unsent)
+}
+
 /**
  * Message in a chat
  */
@@ -14,11 +27,27 @@ export interface Message {
   timestamp: number; // Unix timestamp in milliseconds
   read?: boolean; // Optional: Message read status
   isSystemMessage?: boolean; // System-generated notification (favorites, etc.)
+  replyTo?: MessageReply; // Quoted earlier message
+  reactions?: { [reactorDailyId: string]: ReactionEmoji }; // One reaction per participant
+  editedAt?: number; // Set when the sender edited the text
+  unsentAt?: number; // Set when the sender unsent it; the text is cleared (tombstone)
 }
 
 /**
  * One-to-one chat between two users
  */
+/**
+ * Entry in a participant's inbox index
+ * Stored in: userChats/{dailyId}/{chatId} (mirrors the chat's metadata, never its messages)
+ */
+export interface UserChatEntry {
+  otherDailyId: string;
+  lastMessage?: string;
+  lastMessageTimestamp?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
 export interface Chat {
   chatId: string; // Unique chat ID (sorted daily IDs concatenated)
   participants: {
@@ -48,5 +77,29 @@ export interface ChatListItem {
 export interface NewMessage {
   text: string;
   recipientId: string;
+  clientMessageId?: string; // Lets the server drop duplicate retries
+  replyToMessageId?: string; // The server snapshots the quoted message itself
+}
+
+/**
+ * Delivery state of a message waiting in the outbox
+ */
+export type OutboxStatus = 'sending' | 'failed';
+
+/**
+ * Message written locally (IndexedDB) before the server has accepted it
+ */
+export interface OutboxMessage {
+  clientMessageId: string; // Becomes the message ID once delivered
+  chatId: string;
+  senderId: string;
+  recipientId: string;
+  text: string;
+  replyTo?: MessageReply; // Local snapshot for display; only the ID is sent
+  createdAt: number; // Unix timestamp
+  resetDate: string; // YYYY-MM-DD it was written on; dropped once the day resets
+  attempts: number;
+  status: OutboxStatus;
+  error?: string; // Last failure, shown when status is 'failed'
 }
 
@@ -0,0 +1,35 @@
+/**
+ * Chat Quota Types
+ * Per-user daily chat limits stored in `chatQuotas/{uid}`
+ */
+
+/**
+ * One-off extra chats granted by an admin, valid for a single reset day
+ */
+export interface ChatQuotaGrant {
+  resetDate: string; // YYYY-MM-DD in the reset timezone the grant applies to
+  extraChats: number; // Total extra chats granted for that day
+  reason?: string;
+  grantedBy: string; // Admin email
+  grantedAt: number; // Unix timestamp of the latest grant
+}
+
+/**
+ * Stored quota document (`chatQuotas/{uid}`), written by admins only
+ */
+export interface ChatQuotaDoc {
+  userId: string;
+  baseLimit?: number; // Overrides the default tier when set
+  grant?: ChatQuotaGrant;
+}
+
+/**
+ * Where today's limit comes from
+ */
+export interface ChatQuotaBreakdown {
+  base: number; // Default tier (or per-user override)
+  bonus: number; // Streak bonus tier
+  granted: number; // Admin grant for today
+  total: number;
+  bestStreak: number; // Longest active connection streak used for the bonus
+}
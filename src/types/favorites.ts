@@ -45,12 +45,50 @@ export interface Connection {
   lockExpiresAt: number | null;
   
   // Last date the streak was updated (to detect missed days)
-  lastStreakDate: string; // Format: "YYYY-MM-DD" in PKT
+  lastStreakDate: string; // Format: "YYYY-MM-DD" in the reset timezone
   
-  // Connection status
+  // Streak freezes available: each one covers a single missed day (see src/lib/streaks.ts)
+  freezeBalance?: number;
+  
+  // Longest streak this connection ever reached (milestone badges are derived from it)
+  longestStreak?: number;
+  
+  // Which users favorited the other on each reset day: { "YYYY-MM-DD": { [userId]: true } }
+  favoriteHistory?: Record<string, Record<string, true>>;
+  
+  // Reset day a streak-at-risk push was last sent for (server-only)
+  streakReminderDate?: string;
+  
+  // When the daily reset expired a lapsed streak (cleared when the pair favorites again)
+  expiredAt?: number | null;
+  
+  // Connection status: active -> expired (streak lapsed) -> broken (grace period over)
   status: 'active' | 'expired' | 'broken';
 }
 
+/**
+ * Who favorited on one day of a connection's history, from the viewer's side
+ */
+export type ConnectionHistoryDay = 'both' | 'mine' | 'theirs';
+
+/**
+ * A connection as shown on "Connections You Made"
+ * Never carries the partner's UID: only their daily ID for today.
+ */
+export interface ConnectionSummary {
+  connectionToken: string;
+  partnerDailyId: string | null; // Null until the partner signs in today
+  streakCount: number;
+  streakActive: boolean; // False once a day was missed (the next mutual favorite restarts at 1)
+  status: 'active' | 'expired'; // Expired: the streak was lost, `streakCount` is how long it was
+  freezeBalance: number;
+  longestStreak: number;
+  milestones: number[]; // Milestone streak lengths reached (see STREAK_MILESTONES)
+  history: Record<string, ConnectionHistoryDay>; // Recent reset days (YYYY-MM-DD) anyone favorited
+  createdAt: number;
+  lastMutualFavoriteAt: number;
+}
+
 /**
  * User favorites document - stores all of a user's favorites
  */
@@ -78,7 +116,7 @@ export interface DailyConnectionCheck {
   // Has user2 favorited user1 today?
   user2Favorited: boolean;
   
-  // Date this check is for (PKT timezone)
+  // Date this check is for (reset timezone)
   date: string; // Format: "YYYY-MM-DD"
   
   // Timestamps for each favorite action
@@ -106,5 +144,7 @@ export interface FavoriteActionResult {
   isLocked?: boolean;
   lockExpiresAt?: number;
   streakCount?: number;
+  usedStreakFreeze?: boolean; // A freeze covered the day missed before this renewal
+  freezeBalance?: number;
 }
 
@@ -57,7 +57,7 @@ export interface QueuedStory {
   status: StoryStatus;                // Review status
   anonymized: boolean;                // Always true for privacy
   locked: boolean;                    // True when both users highlighted (prevents unfavorite)
-  lockExpiresAt: number;              // When lock expires (midnight PKT)
+  lockExpiresAt: number;              // When lock expires (next daily reset)
   reviewedAt?: number;                // When admin reviewed (Unix ms)
   reviewedBy?: string;                // Admin UID who reviewed
   approvedUntil?: number;             // Expiry timestamp if approved (24h from approval)
@@ -128,6 +128,6 @@ export interface MessageHighlightStatus {
   myHighlight?: MessageHighlight;     // Current user's highlight data
   queuedForStory: boolean;            // Queued for admin review
   isLocked: boolean;                  // Cannot unfavorite (mutual highlight active)
-  lockExpiresAt?: number;             // When lock expires (midnight PKT)
+  lockExpiresAt?: number;             // When lock expires (next daily reset)
 }
 
@@ -0,0 +1,105 @@
+/**
+ * Moderation Types
+ * Blocks follow Firebase UIDs so they survive daily ID resets;
+ * reports capture recent chat context for the admin moderation queue.
+ */
+
+export type ReportReason = 'spam' | 'harassment' | 'inappropriate' | 'other';
+
+export type ReportStatus = 'open' | 'resolved' | 'dismissed';
+
+export type ModerationAction = 'warn' | 'ban' | 'dismiss';
+
+// What a ban takes away: chatting, highlights/stories, or the whole app
+export type BanScope = 'chat' | 'stories' | 'full';
+
+/**
+ * `blocks/{blockerUid}/blocked/{blockedUid}`
+ */
+export interface BlockRecord {
+  blockerId: string; // Firebase UID of the user who blocked
+  blockedUserId: string; // Firebase UID of the blocked user
+  blockedDailyId: string; // Daily ID the block was made from (for context only)
+  createdAt: number;
+}
+
+/**
+ * Chat message snapshot attached to a report
+ */
+export interface ReportMessageContext {
+  senderId: string; // Daily ID
+  text: string;
+  timestamp: number;
+}
+
+/**
+ * `reports/{reportId}`
+ */
+export interface Report {
+  reportId: string;
+  reporterId: string; // Firebase UID
+  reporterDailyId: string;
+  reportedUserId: string; // Firebase UID
+  reportedDailyId: string;
+  chatId: string;
+  reason: ReportReason;
+  details?: string;
+  messages: ReportMessageContext[]; // Most recent messages, oldest first
+  status: ReportStatus;
+  createdAt: number;
+  resolvedAt?: number;
+  resolvedBy?: string; // Admin email
+  action?: ModerationAction;
+}
+
+/**
+ * `warnings/{uid}` - latest warning shown to the user until acknowledged
+ */
+export interface UserWarning {
+  userId: string;
+  message: string;
+  reportId?: string;
+  issuedAt: number;
+  issuedBy: string; // Admin email
+  acknowledgedAt?: number;
+}
+
+/**
+ * `bans/{uid}` - temporary suspension until `expiresAt`
+ */
+export interface UserBan {
+  userId: string;
+  reason: string;
+  scope?: BanScope; // Missing on older bans, which were always full
+  expiresAt: number; // Unix timestamp
+  createdAt: number;
+  createdBy: string; // Admin email
+  reportId?: string;
+}
+
+/**
+ * `moderationAudit/{entryId}` - append-only log of admin moderation actions
+ */
+export interface ModerationAuditEntry {
+  action: ModerationAction;
+  adminEmail: string;
+  targetUserId: string;
+  reportId?: string;
+  note?: string;
+  banExpiresAt?: number;
+  banScope?: BanScope;
+  createdAt: number;
+}
+
+export const REPORT_REASONS: Record<ReportReason, string> = {
+  spam: 'Spam or scam',
+  harassment: 'Harassment or bullying',
+  inappropriate: 'Inappropriate content',
+  other: 'Something else'
+};
+
+export const BAN_SCOPES: Record<BanScope, string> = {
+  chat: 'Chat only',
+  stories: 'Highlights & stories only',
+  full: 'Full suspension'
+};
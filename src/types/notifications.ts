@@ -0,0 +1,35 @@
+/**
+ * Type definitions for the in-app notification center
+ *
+ * Entries are written by the server only and last until the next daily reset.
+ * Like push payloads they carry fixed copy and an in-app URL, never message text.
+ */
+
+/**
+ * Events that add an entry to a user's notification center
+ */
+export type AppNotificationEvent =
+  | { type: 'mutual-connection'; otherDailyId: string }
+  | { type: 'streak-extended'; otherDailyId: string; streakCount: number }
+  | { type: 'streak-lost'; connectionToken: string; streakCount: number }
+  | { type: 'mutual-highlight'; otherDailyId: string; storyId: string }
+  | { type: 'story-approved'; storyId: string }
+  | { type: 'story-rejected'; storyId: string }
+  | { type: 'support-reply'; supportDailyId: string };
+
+export type AppNotificationType = AppNotificationEvent['type'];
+
+/**
+ * One entry in the notification center
+ * Stored in: notifications/{userId}/items/{notificationId}
+ * Owners may only flip `read`; everything else is server-written.
+ */
+export interface AppNotification {
+  id: string; // Derived from the event, so a repeat replaces the earlier entry
+  type: AppNotificationType;
+  title: string;
+  body: string;
+  url: string; // Deep link opened from the bell menu
+  read: boolean;
+  createdAt: number; // Unix ms; purged at the next daily reset
+}
@@ -0,0 +1,49 @@
+/**
+ * Type definitions for Web Push notifications
+ *
+ * Payloads only ever carry fixed copy and an in-app URL: never message
+ * text, names, emails or any other Google account identity.
+ */
+
+/**
+ * Events that can trigger a push notification
+ */
+export type PushEvent =
+  | { type: 'new-message'; chatId: string; senderDailyId: string }
+  | { type: 'mutual-favorite'; otherDailyId: string }
+  | { type: 'streak-at-risk'; streakCount: number }
+  | { type: 'story-approved'; storyId: string };
+
+export type PushEventType = PushEvent['type'];
+
+/**
+ * JSON delivered to the service worker
+ */
+export interface PushPayload {
+  type: PushEventType;
+  title: string;
+  body: string;
+  url: string; // Opened when the notification is clicked
+  tag: string; // Later notifications with the same tag replace earlier ones
+}
+
+/**
+ * A browser push subscription (PushSubscription.toJSON())
+ */
+export interface PushSubscriptionRecord {
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+}
+
+/**
+ * One subscribed device
+ * Stored in: pushSubscriptions/{userId}/devices/{deviceId} (server-only)
+ */
+export interface StoredPushSubscription extends PushSubscriptionRecord {
+  userId: string;
+  createdAt: number;
+  updatedAt: number;
+}
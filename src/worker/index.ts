@@ -0,0 +1,51 @@
+/// <reference lib="webworker" />
+
+/**
+ * Custom service worker code
+ * next-pwa bundles this into the generated service worker (see next.config.ts).
+ * Shows Web Push notifications and opens the right page when one is clicked.
+ */
+
+import type { PushPayload } from '@/types/push';
+
+declare const self: ServiceWorkerGlobalScope;
+
+self.addEventListener('push', (event) => {
+  const payload = event.data?.json() as PushPayload | undefined;
+  if (!payload) return;
+
+  event.waitUntil((async () => {
+    // Skip the notification when the user is already looking at that page
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const alreadyOpen = windows.some(
+      (client) => client.focused && new URL(client.url).pathname === payload.url
+    );
+    if (alreadyOpen) return;
+
+    await self.registration.showNotification(payload.title, {
+      body: payload.body,
+      tag: payload.tag,
+      icon: '/icon-192.png',
+      badge: '/favicon-64.png',
+      data: { url: payload.url }
+    });
+  })());
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = (event.notification.data as { url?: string } | null)?.url || '/';
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const existing = windows[0];
+
+    if (existing) {
+      await existing.focus();
+      // navigate() fails for windows this worker does not control yet
+      if (await existing.navigate(url).catch(() => null)) return;
+    }
+
+    await self.clients.openWindow(url);
+  })());
+});
@@ -0,0 +1,124 @@
+import { readFileSync } from 'node:fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestEnvironment
+} from '@firebase/rules-unit-testing';
+
+const ALICE_ID = '11111111';
+const BOB_ID = '22222222';
+const CHAT_ID = `${ALICE_ID}_${BOB_ID}`;
+
+let testEnv: RulesTestEnvironment;
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'demo-ghostmate',
+    database: { rules: readFileSync('database.rules.json', 'utf8') }
+  });
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearDatabase();
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    const expiresAt = Date.now() + 60 * 60 * 1000;
+    await context.database().ref().set({
+      dailyIdOwners: {
+        [ALICE_ID]: { uid: 'alice', expiresAt },
+        [BOB_ID]: { uid: 'bob', expiresAt }
+      },
+      chats: {
+        [CHAT_ID]: {
+          chatId: CHAT_ID,
+          participants: { [ALICE_ID]: true, [BOB_ID]: true },
+          participantIds: [ALICE_ID, BOB_ID],
+          createdAt: 1,
+          updatedAt: 1,
+          messages: {
+            message1: { senderId: BOB_ID, recipientId: ALICE_ID, text: 'hi', timestamp: 1, read: false }
+          }
+        }
+      },
+      userChats: {
+        [ALICE_ID]: { [CHAT_ID]: { otherDailyId: BOB_ID, createdAt: 1, updatedAt: 1 } },
+        [BOB_ID]: { [CHAT_ID]: { otherDailyId: ALICE_ID, createdAt: 1, updatedAt: 1 } }
+      }
+    });
+  });
+});
+
+const alice = () => testEnv.authenticatedContext('alice').database();
+
+describe('system messages and chat previews', () => {
+  it('cannot be forged by a signed-in user', async () => {
+    await assertFails(
+      alice().ref(`chats/${CHAT_ID}/messages/forged`).set({
+        senderId: 'system',
+        recipientId: 'system',
+        text: '💫 You both favorited each other!',
+        timestamp: Date.now(),
+        read: false,
+        isSystemMessage: true
+      })
+    );
+    await assertFails(
+      testEnv.authenticatedContext('mallory').database().ref(`chats/${CHAT_ID}/messages/forged`).set({
+        senderId: 'system',
+        recipientId: 'system',
+        text: 'forged',
+        timestamp: Date.now(),
+        isSystemMessage: true
+      })
+    );
+  });
+
+  it.each(['lastMessage', 'lastMessageTimestamp', 'updatedAt'])('clients cannot write chats/{chatId}/%s', async (field) => {
+    await assertFails(alice().ref(`chats/${CHAT_ID}/${field}`).set(field === 'lastMessage' ? 'forged' : Date.now()));
+  });
+
+  it('clients cannot write inbox previews, even their own', async () => {
+    await assertFails(alice().ref(`userChats/${BOB_ID}/${CHAT_ID}/lastMessage`).set('forged'));
+    await assertFails(alice().ref(`userChats/${ALICE_ID}/${CHAT_ID}/updatedAt`).set(Date.now()));
+  });
+
+  it('participants can still mark messages read and zero their unread count', async () => {
+    await assertSucceeds(alice().ref(`chats/${CHAT_ID}/messages/message1/read`).set(true));
+    await assertSucceeds(alice().ref(`chats/${CHAT_ID}/unreadCounts/${ALICE_ID}`).set(0));
+    await assertSucceeds(alice().ref(`userUnread/${ALICE_ID}/${CHAT_ID}`).set(0));
+  });
+});
+
+describe('read flags and unread counters', () => {
+  const bob = () => testEnv.authenticatedContext('bob').database();
+  const mallory = () => testEnv.authenticatedContext('mallory').database();
+
+  it('only the recipient can mark a message read', async () => {
+    await assertFails(bob().ref(`chats/${CHAT_ID}/messages/message1/read`).set(true));
+    await assertFails(mallory().ref(`chats/${CHAT_ID}/messages/message1/read`).set(true));
+  });
+
+  it("cannot clear someone else's unread badges", async () => {
+    await assertFails(alice().ref(`chats/${CHAT_ID}/unreadCounts/${BOB_ID}`).set(0));
+    await assertFails(alice().ref(`userUnread/${BOB_ID}/${CHAT_ID}`).set(0));
+    await assertFails(mallory().ref(`userUnread/${ALICE_ID}/${CHAT_ID}`).set(0));
+  });
+});
+
+describe('typing indicators and read receipts', () => {
+  it.each(['typing', 'readReceipts'])('participants can write their own %s entry', async (path) => {
+    await assertSucceeds(alice().ref(`chats/${CHAT_ID}/${path}/${ALICE_ID}`).set(Date.now()));
+  });
+
+  it.each(['typing', 'readReceipts'])('cannot be written for the other participant under %s', async (path) => {
+    await assertFails(alice().ref(`chats/${CHAT_ID}/${path}/${BOB_ID}`).set(Date.now()));
+    await assertFails(
+      testEnv.authenticatedContext('mallory').database().ref(`chats/${CHAT_ID}/${path}/${BOB_ID}`).set(Date.now())
+    );
+  });
+});
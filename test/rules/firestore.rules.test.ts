@@ -0,0 +1,181 @@
+import { readFileSync } from 'node:fs';
+import firebase from 'firebase/compat/app';
+import 'firebase/compat/firestore';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestEnvironment
+} from '@firebase/rules-unit-testing';
+
+const CONNECTION_PATH = 'connections/alice_bob';
+const LOCK_EXPIRES_AT = Date.now() + 60 * 60 * 1000;
+
+let testEnv: RulesTestEnvironment;
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'demo-ghostmate',
+    firestore: { rules: readFileSync('firestore.rules', 'utf8') }
+  });
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore();
+    await db.doc(CONNECTION_PATH).set({
+      connectionToken: 'ABCD1234',
+      userIds: ['alice', 'bob'],
+      createdAt: Date.now(),
+      lastMutualFavoriteAt: Date.now(),
+      streakCount: 3,
+      isLocked: true,
+      lockExpiresAt: LOCK_EXPIRES_AT,
+      lastStreakDate: '2026-10-19',
+      status: 'active'
+    });
+    await db.doc('userFavorites/alice').set({
+      userId: 'alice',
+      favorites: { '12345678': { userId: 'alice', favoritedDailyId: '12345678', userDailyId: '87654321', createdAt: 1 } },
+      updatedAt: 1
+    });
+  });
+});
+
+const alice = () => testEnv.authenticatedContext('alice').firestore();
+const admin = () => testEnv.authenticatedContext('admin', { email: 'admin@ghostmate.com' }).firestore();
+
+describe('connections', () => {
+  it('can be read by its participants only', async () => {
+    await assertSucceeds(alice().doc(CONNECTION_PATH).get());
+    await assertFails(testEnv.authenticatedContext('mallory').firestore().doc(CONNECTION_PATH).get());
+  });
+
+  it.each([
+    ['isLocked', false],
+    ['lockExpiresAt', 0],
+    ['streakCount', 99],
+    ['connectionToken', 'ZZZZ9999']
+  ])('participants cannot change %s', async (field, value) => {
+    await assertFails(alice().doc(CONNECTION_PATH).update({ [field]: value }));
+  });
+
+  it('participants cannot overwrite, delete or create connections', async () => {
+    await assertFails(alice().doc(CONNECTION_PATH).set({ userIds: ['alice', 'bob'], isLocked: false }));
+    await assertFails(alice().doc(CONNECTION_PATH).delete());
+    await assertFails(
+      alice().doc('connections/alice_carol').set({ userIds: ['alice', 'carol'], connectionToken: 'NEW00000', streakCount: 50 })
+    );
+  });
+
+  it('admins can still update them', async () => {
+    await assertSucceeds(admin().doc(CONNECTION_PATH).update({ isLocked: false, lockExpiresAt: null }));
+  });
+});
+
+describe('userFavorites', () => {
+  it('can be read by signed-in users', async () => {
+    await assertSucceeds(testEnv.authenticatedContext('bob').firestore().doc('userFavorites/alice').get());
+    await assertFails(testEnv.unauthenticatedContext().firestore().doc('userFavorites/alice').get());
+  });
+
+  it('cannot be written by clients, even by their owner', async () => {
+    await assertFails(alice().doc('userFavorites/alice').update({ favorites: {} }));
+    await assertFails(alice().doc('userFavorites/alice').delete());
+    await assertFails(testEnv.authenticatedContext('bob').firestore().doc('userFavorites/bob').set({ favorites: {} }));
+  });
+});
+
+describe('dailyIds', () => {
+  const HOUR_MS = 60 * 60 * 1000;
+  const reservation = (overrides: Record<string, unknown> = {}) => ({
+    dailyId: '11111111',
+    userId: 'alice',
+    createdAt: firebase.firestore.FieldValue.serverTimestamp(),
+    expiresAt: new Date(Date.now() + 12 * HOUR_MS),
+    ...overrides
+  });
+
+  it('lets users reserve a free ID for themselves until the next reset', async () => {
+    await assertSucceeds(alice().doc('dailyIds/11111111').set(reservation()));
+  });
+
+  it('rejects reservations whose document ID differs from the daily ID', async () => {
+    await assertFails(alice().doc('dailyIds/00000001').set(reservation()));
+  });
+
+  it('rejects expiry dates past the next reset and backdated creation times', async () => {
+    await assertFails(alice().doc('dailyIds/11111111').set(reservation({ expiresAt: new Date(Date.now() + 30 * 24 * HOUR_MS) })));
+    await assertFails(alice().doc('dailyIds/11111111').set(reservation({ expiresAt: new Date(Date.now() - HOUR_MS) })));
+    await assertFails(alice().doc('dailyIds/11111111').set(reservation({ createdAt: new Date(Date.now() - 24 * HOUR_MS) })));
+  });
+
+  it('rejects reservations for someone else', async () => {
+    await assertFails(alice().doc('dailyIds/11111111').set(reservation({ userId: 'bob' })));
+  });
+
+  it('only lets an ID be taken over once it has expired', async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await context.firestore().doc('dailyIds/11111111').set({
+        dailyId: '11111111',
+        userId: 'bob',
+        createdAt: new Date(Date.now() - HOUR_MS),
+        expiresAt: new Date(Date.now() + HOUR_MS)
+      });
+    });
+    await assertFails(alice().doc('dailyIds/11111111').set(reservation()));
+
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await context.firestore().doc('dailyIds/11111111').update({ expiresAt: new Date(Date.now() - 1000) });
+    });
+    await assertSucceeds(alice().doc('dailyIds/11111111').set(reservation()));
+  });
+});
+
+describe('blocks', () => {
+  beforeEach(async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      const db = context.firestore();
+      await db.doc('blocks/alice/blocked/bob').set({ blockerId: 'alice', blockedUserId: 'bob', blockedDailyId: '22222222', createdAt: 1 });
+      await db.doc('blocks/bob/blockedBy/alice').set({ createdAt: 1 });
+    });
+  });
+
+  it('lets the blocked user see who blocked them, and nobody else', async () => {
+    await assertSucceeds(testEnv.authenticatedContext('bob').firestore().collection('blocks/bob/blockedBy').get());
+    await assertFails(testEnv.authenticatedContext('mallory').firestore().collection('blocks/bob/blockedBy').get());
+  });
+
+  it('cannot be written or removed by clients', async () => {
+    await assertFails(testEnv.authenticatedContext('bob').firestore().doc('blocks/bob/blockedBy/alice').delete());
+    await assertFails(alice().doc('blocks/carol/blockedBy/alice').set({ createdAt: Date.now() }));
+    await assertFails(alice().doc('blocks/alice/blocked/bob').delete());
+  });
+});
+
+describe('users', () => {
+  beforeEach(async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await context.firestore().doc('users/alice').set({
+        userId: 'alice',
+        chatLimit: { chatCount: 3, lastResetDate: '2026-10-19' }
+      });
+    });
+  });
+
+  it('cannot be deleted by their owner, so the chat counter cannot be reset', async () => {
+    await assertFails(alice().doc('users/alice').delete());
+    await assertSucceeds(admin().doc('users/alice').delete());
+  });
+
+  it('never lets the owner write chatLimit', async () => {
+    await assertFails(alice().doc('users/alice').update({ chatLimit: { chatCount: 0, lastResetDate: '2026-10-19' } }));
+    await assertSucceeds(alice().doc('users/alice').update({ displayName: 'Alice' }));
+  });
+});
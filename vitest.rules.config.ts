@@ -0,0 +1,11 @@
+import { defineConfig } from "vitest/config";
+
+// Security rules tests need the Firestore and Realtime Database emulators (`npm run test:rules`)
+export default defineConfig({
+  test: {
+    include: ["test/rules/**/*.test.ts"],
+    environment: "node",
+    fileParallelism: false,
+    testTimeout: 20000,
+  },
+});